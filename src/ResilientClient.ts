@@ -1,121 +1,327 @@
-import { bulkhead, circuitBreaker, ConsecutiveBreaker, ExponentialBackoff, handleType, ICancellationContext, IPolicy, retry, RetryPolicy, TaskCancelledError, timeout, TimeoutStrategy, wrap } from "cockatiel";
-import isNetworkError from "is-network-error";
+import { circuitBreaker, CircuitBreakerPolicy, ConsecutiveBreaker, ConstantBackoff, decorrelatedJitterGenerator, DelegateBackoff, 
+    ExponentialBackoff, fullJitterGenerator, GeneratorFn, handleType, handleWhen, IBackoffFactory, IBreaker, ICancellationContext, IPolicy, IRetryBackoffContext, noJitterGenerator, 
+    noop, retry, RetryPolicy, TaskCancelledError, timeout, TimeoutPolicy, TimeoutStrategy, wrap, BrokenCircuitError } from "cockatiel";
 import { SimpleFetchClient } from "./SimpleClient.js";
-import { FetchClientOptions, HttpError, HttpErrorCause, MethodName, RequestOptions, ResponseErrorCause, RetryConfig } from "./client.js";
+import { CircuitBreakerRegistry } from "./resilience/CircuitBreakerRegistry.js";
+import { ConcurrencyLimiter, QueueOptions } from "./resilience/ConcurrencyLimiter.js";
+import { FailureRateBreaker } from "./resilience/FailureRateBreaker.js";
+import { LatencyTracker } from "./resilience/LatencyTracker.js";
+import { RateLimiter } from "./resilience/RateLimiter.js";
+import { RetryBudgets } from "./resilience/RetryBudget.js";
+import { BackoffFunction, CircuitBreakerConfig, CircuitBreakerState, CircuitOpenError, ConcurrencyState, FetchClientError, FetchClientOptions, HedgingConfig, HttpError, HttpErrorCause, MethodName, 
+    Milliseconds, NetworkError, QueueFullError, RequestEventBase, RequestOptions, RequestTimeoutError, ResponseErrorCause, RetryAfterConfig, 
+    RetryBudgetExhaustedError, RetryConfig, RetryPredicate } from "./client.js";
+
+/**
+ * The policy applied to an individual request, plus the settings the request execution needs to know about.
+ */
+interface RequestPolicy {
+    /**
+     * Total timeout and retries
+     */
+    policy: IPolicy<ICancellationContext>;
+    retry: RetryPolicy|undefined;
+    /**
+     * The per-request timeout is not part of the policy, since it is applied to each attempt individually. The same holds for the
+     * bulkhead and circuit breaker, which are shared by all policies of the client.
+     */
+    timeout: TimeoutPolicy|undefined;
+    timeoutRequest: Milliseconds|undefined;
+    timeoutTotal: Milliseconds|undefined;
+    retryAfter: RetryAfterSettings;
+    idempotencyKey: boolean;
+}
+
+type RetryAfterSettings = Required<Omit<RetryAfterConfig, "maxDelay">>&Pick<RetryAfterConfig, "maxDelay">;
+
+/**
+ * Identifies the request attempt an error originated from
+ */
+interface AttemptInfo extends RequestEventBase {
+    url: string;
+    idempotencyKey?: string;
+    shouldRetry?: RetryPredicate;
+}
 
 export class ResilientFetchClient extends SimpleFetchClient {
 
     // some frameworks include 501 - Not implemented, which may also send a Retry-After header. But this seems strange.
     private static readonly _DEFAULT_RETRY_CODES = [408, /*413,*/ 420, 429, 500, 502, 503, 504];    // 413 is content too large
     private static readonly _DEFAULT_RETRY_METHODS = ["GET", "HEAD", "PUT", "DELETE", "OPTIONS", "TRACE"]; // POST is usually not idempotent
+    // retryable only with an Idempotency-Key header
+    private static readonly _NON_IDEMPOTENT_METHODS = ["POST", "PATCH"];
+    // hedged requests run in parallel, hence only safe methods; a mutation would reach the server twice at the same time
+    private static readonly _HEDGING_METHODS = ["GET", "HEAD", "OPTIONS"];
+    private static readonly _IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
     private static readonly _DEFAULT_CIRCUIT_BREAKER_CODES = [408, /*413,*/ 420, 429, 500, 502, 503, 504];
     // see https://github.com/sindresorhus/ky/blob/3ba40cc6333cf1847c02c51744e22ab7c04407f5/source/core/Ky.ts#L220
     // and https://github.com/sindresorhus/ky/issues/608
     private static readonly _DEFAULT_RETRY_AFTER_HEADERS = [
         "Retry-After", "RateLimit-Reset", "X-RateLimit-Reset", "X-Rate-Limit-Reset"
     ]; 
-    readonly #policy: IPolicy<ICancellationContext>;
-    readonly #retry: RetryPolicy|undefined;
-    readonly #totalTimeoutMillis: number|undefined;
-    readonly #retryAfterCodes: Array<number> = [429, 503]; // TODO configurable
+    private static readonly _DEFAULT_RETRY_AFTER_CODES = [429, 503];
+    // status codes reducing the limit in adaptive concurrency mode
+    private static readonly _OVERLOAD_CODES = [429, 503, 504];
+    // time left for the final attempt when a Retry-After delay is shortened to fit into the total timeout
+    private static readonly _DEFAULT_RETRY_AFTER_SAFETY_MARGIN: Milliseconds = 5_000;
+    readonly #options: FetchClientOptions|undefined;
+    // policy for requests without overrides
+    readonly #defaultPolicy: RequestPolicy;
+    readonly #circuitBreakers: CircuitBreakerRegistry|undefined;
+    readonly #bulkhead: ConcurrencyLimiter|undefined;
+    // allows us to relate errors reported by the cockatiel policies to the request they occurred in
+    readonly #attemptFailures: WeakMap<object, AttemptInfo> = new WeakMap();
+    readonly #retryBudgets: RetryBudgets|undefined;
+    readonly #rateLimiter: RateLimiter|undefined;
+    // errors that would have been retried, but the retry budget was exhausted
+    readonly #budgetExhausted: WeakSet<object> = new WeakSet();
+    // latencies of successful requests with safe methods, for hedging
+    readonly #latencies: LatencyTracker = new LatencyTracker();
+    // errors whose Retry-After delay exceeds the configured maximum
+    readonly #retryAfterExceeded: WeakSet<object> = new WeakSet();
 
     constructor(
             options?: FetchClientOptions
         ) {
-        super(options?.fetch, options?.baseUrl, options?.defaultHeaders, options?.defaultHeadersByMethod);
-        const retries = typeof options?.retries === "number" ? options.retries : options?.retries?.maxRetries;
-        let circuitBrk = undefined;
-        if (options?.circuitBreaker) {
-            const statusCodes = options.circuitBreaker.statusCodes ? [...options.circuitBreaker.statusCodes] :
-                [...ResilientFetchClient._DEFAULT_CIRCUIT_BREAKER_CODES];
-            const methods: Array<string>|undefined = options.circuitBreaker.methods;
-            let circuitHandler = handleType(HttpError, (err: HttpError) => {
-                const cause = err.cause;
-                switch (cause) {
-                case "responseStatus":
-                    const details = err.details as ResponseErrorCause&HttpErrorCause;
-                    const code = statusCodes.indexOf(details.status) >= 0;  
-                    if (!code)
-                        return false;
-                    return !methods || methods.indexOf(details.method) >= 0;
-                case "contentType":
-                    return false;
-                default:
+        super(options);
+        this.#options = options;
+        this.#circuitBreakers = options?.circuitBreaker ? 
+            new CircuitBreakerRegistry(options.circuitBreaker, this._createCircuitBreaker.bind(this), options.circuitBreakerStore, this._logger) : undefined;
+        this.#retryBudgets = options?.retryBudget ? new RetryBudgets(options.retryBudget) : undefined;
+        this.#rateLimiter = options?.rateLimit ? new RateLimiter(options.rateLimit) : undefined;
+        if (options?.hedging)
+            ResilientFetchClient._validateHedging(options.hedging);
+        const parallel = options?.parallelRequests;
+        this.#bulkhead = parallel ? 
+            new ConcurrencyLimiter(parallel.maxParallelRequests, parallel.maxQueuedRequests, parallel.adaptive, ResilientFetchClient._isOverload) : undefined;
+        this.#defaultPolicy = this._createPolicy(options?.retries, options?.timeoutRequest, options?.timeoutTotal);
+    }
+
+    /**
+     * Creates a new client and restores the persisted circuit breaker state, if a {@link FetchClientOptions.circuitBreakerStore} is configured.
+     */
+    static async create(options?: FetchClientOptions): Promise<ResilientFetchClient> {
+        const client = new ResilientFetchClient(options);
+        await client.#circuitBreakers?.restore();
+        return client;
+    }
+
+    override circuitState(key?: string): CircuitBreakerState|undefined {
+        return this.#circuitBreakers?.state(key);
+    }
+
+    override isolateCircuit(key?: string): boolean {
+        return this.#circuitBreakers?.isolate(key) || false;
+    }
+
+    override resetCircuit(key?: string): boolean {
+        const previousState = this.#circuitBreakers?.state(key)?.state;
+        const result = this.#circuitBreakers?.reset(key) || false;
+        if (result && previousState !== "closed") {
+            const scoped: boolean = CircuitBreakerRegistry.isScoped(this.#options!.circuitBreaker!);
+            this._emit("circuitClose", {breaker: scoped ? key : undefined});
+        }
+        return result;
+    }
+
+    override concurrency(): ConcurrencyState|undefined {
+        return this.#bulkhead?.state();
+    }
+
+    protected override _rejectQueued(reason: unknown): number {
+        return this.#bulkhead?.rejectQueued(reason) ?? 0;
+    }
+
+    /**
+     * Returns the client-wide policy, unless the request overrides any of the resilience settings. In the latter case
+     * a new policy is assembled; the stateful circuit breaker and bulkhead are not part of it, they are shared by all requests.
+     */
+    private _policyForRequest(init: RequestOptions): RequestPolicy {
+        if (init.retries === undefined && init.timeoutRequest === undefined && init.timeoutTotal === undefined)
+            return this.#defaultPolicy;
+        let retries = this.#options?.retries;
+        if (init.retries !== undefined) {
+            const clientConfig: Partial<RetryConfig> = typeof retries === "object" ? retries : {};
+            retries = typeof init.retries === "number" ? {...clientConfig, maxRetries: init.retries} : {...clientConfig, ...init.retries};
+        }
+        return this._createPolicy(retries, init.timeoutRequest ?? this.#options?.timeoutRequest, init.timeoutTotal ?? this.#options?.timeoutTotal);
+    }
+
+    private _createPolicy(retries: number|RetryConfig|undefined, timeoutRequest: Milliseconds|undefined, timeoutTotal: Milliseconds|undefined): RequestPolicy {
+        const tout = timeoutRequest! > 0 ? timeout(timeoutRequest!, {strategy: TimeoutStrategy.Aggressive, abortOnReturn: false}) : undefined;
+        const retryPolicy = this._createRetryPolicy(retries);
+        const globalTimeout = timeoutTotal! > 0 ? timeout(timeoutTotal!, TimeoutStrategy.Aggressive) : undefined;
+        const policies: Array<IPolicy> = [];
+        const addPolicy = (policy: IPolicy|undefined) => {
+            if (policy)
+                policies.push(policy);
+        };
+        addPolicy(globalTimeout);
+        addPolicy(retryPolicy);
+        retryPolicy?.onRetry(evt => {
+            const error = (evt as {error?: unknown}).error;
+            const info = this._attemptInfo(error);
+            if (info)
+                this._emit("retry", {...ResilientFetchClient._eventBase(info), attempt: info.attempt + 1, delay: evt.delay, error: error});
+        });
+        return {policy: policies.length > 0 ? wrap(...policies) : noop, retry: retryPolicy, timeout: tout, 
+            timeoutRequest: timeoutRequest, timeoutTotal: timeoutTotal, retryAfter: ResilientFetchClient._retryAfterSettings(retries),
+            idempotencyKey: typeof retries === "object" && !!retries.idempotencyKey};
+    }
+
+    private _createCircuitBreaker(key: string, config: CircuitBreakerConfig, initialState?: unknown): CircuitBreakerPolicy {
+        const statusCodes = config.statusCodes ? [...config.statusCodes] :
+            [...ResilientFetchClient._DEFAULT_CIRCUIT_BREAKER_CODES];
+        const methods: Array<string>|undefined = config.methods;
+        let circuitHandler = handleType(HttpError, (err: HttpError) => {
+            const cause = err.cause;
+            switch (cause) {
+            case "responseStatus":
+                const details = err.details as ResponseErrorCause&HttpErrorCause;
+                const code = statusCodes.indexOf(details.status) >= 0;  
+                if (!code)
                     return false;
-                }
-                
-            });
-            if (options?.circuitBreaker.triggerOnTimeout !== false) {
-                circuitHandler = circuitHandler.orType(TaskCancelledError, (err: TaskCancelledError) => {
-                    const isTimeout: boolean = err.message?.indexOf("timed out") >= 0;
-                    return isTimeout;
-                });
-            }
-            if (options?.circuitBreaker.triggerOnNetworkError !== false) {
-                circuitHandler = circuitHandler.orType(TypeError, isNetworkError);
+                return !methods || methods.indexOf(details.method) >= 0;
+            case "contentType":
+                return false;
+            default:
+                return false;
             }
-            circuitBrk = options?.circuitBreaker ? circuitBreaker(circuitHandler, 
-                {breaker: new ConsecutiveBreaker(options.circuitBreaker.openAfterFailedAttempts), halfOpenAfter: options.circuitBreaker.halfOpenAfter}) : undefined;
+            
+        });
+        if (config.triggerOnTimeout !== false) {
+            circuitHandler = circuitHandler.orType(RequestTimeoutError, err => err.scope === "request");
+        }
+        if (config.triggerOnNetworkError !== false) {
+            circuitHandler = circuitHandler.orType(NetworkError);
+        }
+        const breaker = circuitBreaker(circuitHandler, 
+            {breaker: ResilientFetchClient._createBreaker(config), halfOpenAfter: config.halfOpenAfter, initialState: initialState});
+        const breakerKey: string|undefined = CircuitBreakerRegistry.isScoped(this.#options!.circuitBreaker!) ? key : undefined;
+        breaker.onBreak(reason => {
+            const error = (reason as {error?: unknown}).error;
+            const info = this._attemptInfo(error);
+            this._emit("circuitOpen", {...(info ? ResilientFetchClient._eventBase(info) : {}), breaker: breakerKey, error: error});
+        });
+        breaker.onHalfOpen(() => this._emit("circuitHalfOpen", {breaker: breakerKey}));
+        breaker.onReset(() => this._emit("circuitClose", {breaker: breakerKey}));
+        return breaker;
+    }
+
+    private static _createBreaker(config: CircuitBreakerConfig): IBreaker {
+        if (config.openAfterFailedAttempts! > 0)
+            return new ConsecutiveBreaker(config.openAfterFailedAttempts!);
+        const failureRate = config.failureRate;
+        if (!failureRate)
+            throw new Error("Circuit breaker config requires either openAfterFailedAttempts or failureRate");
+        return new FailureRateBreaker(failureRate);
+    }
+
+    private _createRetryPolicy(retriesOrConfig: number|RetryConfig|undefined): RetryPolicy|undefined {
+        const retries = typeof retriesOrConfig === "number" ? retriesOrConfig : retriesOrConfig?.maxRetries;
+        if (!(retries! > 0))
+            return undefined;
+        const retryConfig: Partial<RetryConfig> = typeof retriesOrConfig === "object" ? retriesOrConfig : {};
+        const isRetryable = ResilientFetchClient._retryPredicate(retryConfig);
+        const retryHandler = handleWhen(err => this._shouldRetry(err, isRetryable) && !this.#retryAfterExceeded.has(err) 
+            && this._retryPermitted(err, retries!));
+        return retry(retryHandler, { maxAttempts: retries, backoff: ResilientFetchClient._createBackoff(retryConfig) });
+    }
+
+    private static _createBackoff(retryConfig: Partial<RetryConfig>): IBackoffFactory<IRetryBackoffContext<unknown>> {
+        const initialDelay: Milliseconds = retryConfig.initialDelay !== undefined ? retryConfig.initialDelay : 128;
+        const backoff = retryConfig.backoff || "decorrelatedJitter";
+        if (typeof backoff === "function") {
+            const fn: BackoffFunction = backoff;
+            return new DelegateBackoff<IRetryBackoffContext<unknown>, Milliseconds|undefined>((context, previousDelay) => {
+                const delay = fn({retry: context.attempt, error: (context.result as {error?: unknown}).error, previousDelay: previousDelay});
+                return {delay: delay, state: delay};
+            });
+        }
+        switch (backoff) {
+        case "constant":
+            return new ConstantBackoff(initialDelay);
+        case "exponential":
+            return ResilientFetchClient._exponentialBackoff(noJitterGenerator, retryConfig, initialDelay);
+        case "fullJitter":
+            return ResilientFetchClient._exponentialBackoff(fullJitterGenerator, retryConfig, initialDelay);
+        case "decorrelatedJitter":
+            return ResilientFetchClient._exponentialBackoff(decorrelatedJitterGenerator, retryConfig, initialDelay);
+        default:
+            throw new Error("Unknown backoff strategy " + backoff);
         }
-        const tout = options?.timeoutRequest! > 0 ? timeout(options!.timeoutRequest!, {strategy: TimeoutStrategy.Aggressive, abortOnReturn: false}) : undefined;
-        const bulkhd = options?.parallelRequests ? bulkhead(options.parallelRequests.maxParallelRequests, options.parallelRequests.maxQueuedRequests) : undefined;
-        const retryConfig: Partial<RetryConfig> = typeof options?.retries === "object" ? options.retries : {};
-        let retryPolicy = undefined;
-        if (retries! > 0) {
-            const statusCodes = retryConfig?.retryStatusCodes ? [...retryConfig.retryStatusCodes] :
-                    [...ResilientFetchClient._DEFAULT_RETRY_CODES];
-            const methods = [...ResilientFetchClient._DEFAULT_RETRY_METHODS];
-            if (retryConfig?.retryPosts)
-                methods.push("POST");
-            let retryHandler = handleType(HttpError, (err: HttpError) => {
+    }
+
+    /**
+     * @param generator its state type S differs between the jitter strategies, e.g. the decorrelated jitter generator keeps two numbers
+     */
+    private static _exponentialBackoff<S>(generator: GeneratorFn<S>, retryConfig: Partial<RetryConfig>, initialDelay: Milliseconds): ExponentialBackoff<S> {
+        return new ExponentialBackoff<S>({generator: generator, maxDelay: retryConfig.maxDelay || 30_000, exponent: retryConfig.exponent || 2, 
+            initialDelay: initialDelay});
+    }
+
+    private static _retryAfterSettings(retries: number|RetryConfig|undefined): RetryAfterSettings {
+        const config: RetryAfterConfig|undefined = typeof retries === "object" ? retries.retryAfter : undefined;
+        return {
+            statusCodes: config?.statusCodes ? [...config.statusCodes] : [...ResilientFetchClient._DEFAULT_RETRY_AFTER_CODES],
+            headers: config?.headers ? [...config.headers] : [...ResilientFetchClient._DEFAULT_RETRY_AFTER_HEADERS],
+            maxDelay: config?.maxDelay,
+            safetyMargin: config?.safetyMargin !== undefined ? config.safetyMargin : ResilientFetchClient._DEFAULT_RETRY_AFTER_SAFETY_MARGIN
+        };
+    }
+
+    private static _retryPredicate(retryConfig: Partial<RetryConfig>): (err: unknown, info?: AttemptInfo) => boolean {
+        const statusCodes = retryConfig?.retryStatusCodes ? [...retryConfig.retryStatusCodes] :
+                [...ResilientFetchClient._DEFAULT_RETRY_CODES];
+        const methods = [...ResilientFetchClient._DEFAULT_RETRY_METHODS];
+        if (retryConfig?.retryPosts)
+            methods.push("POST");
+        return (err: unknown, info?: AttemptInfo) => {
+            if (err instanceof HttpError) {
                 const cause = err.cause;
                 switch (cause) {
                 case "responseStatus":
                     const details = err.details as ResponseErrorCause&{method: string;};
-                    return statusCodes.indexOf(details.status) >= 0 && methods.indexOf(details.method?.toUpperCase()) >= 0;  
+                    const method: string = info?.method ?? details.method?.toUpperCase();
+                    const methodRetryable: boolean = methods.indexOf(method) >= 0 || 
+                        (info?.idempotencyKey !== undefined && ResilientFetchClient._NON_IDEMPOTENT_METHODS.indexOf(method) >= 0);
+                    return statusCodes.indexOf(details.status) >= 0 && methodRetryable;  
                 case "contentType":
                     return false;
                 default:
                     return false;
                 }
-                
-            });
-            if (retryConfig?.retryTimeout !== false) {
-                retryHandler = retryHandler.orType(TaskCancelledError, (err: TaskCancelledError) => {
-                    const isTimeout: boolean = err.message?.indexOf("timed out") >= 0;
-                    return isTimeout;
-                });
             }
-            if (retryConfig?.retryNetworkErrors !== false) {
-                retryHandler = retryHandler.orType(TypeError, isNetworkError);
-            }
-            const retryBackoff = new ExponentialBackoff({maxDelay: retryConfig.maxDelay || 30_000, exponent: retryConfig.exponent || 2, 
-                initialDelay: retryConfig.initialDelay !== undefined ? retryConfig.initialDelay : 128})
-            retryPolicy = retry(retryHandler, { maxAttempts: retries, backoff: retryBackoff });
-        }
-        this.#retry = retryPolicy;
-        this.#totalTimeoutMillis = options?.timeoutTotal;
-        const globalTimeout = options?.timeoutTotal! > 0 ? timeout(options!.timeoutTotal!, TimeoutStrategy.Aggressive) : undefined;
-        const policies: Array<IPolicy> = [];
-        const addPolicy = (policy: IPolicy|undefined) => {
-            if (policy)
-                policies.push(policy);
+            if (err instanceof RequestTimeoutError)
+                return retryConfig?.retryTimeout !== false && err.scope === "request";
+            if (err instanceof NetworkError)
+                return retryConfig?.retryNetworkErrors !== false;
+            return false;
         };
-        addPolicy(globalTimeout);
-        addPolicy(retryPolicy);
-        addPolicy(bulkhd);
-        addPolicy(circuitBrk);
-        addPolicy(tout);
-        this.#policy = wrap(...policies);
-        if (options?.consoleLogHttpIssues) {
-            tout?.onTimeout(() => console.log("TIMEOUT"));
-            // @ts-ignore
-            tout?.onFailure(data => console.log("Request failure", data))
-            // @ts-ignore
-            retryPolicy?.onRetry(evt => console.log("RETRY", evt));
-            // @ts-ignore
-            circuitBrk?.onBreak(evt => console.log("Circuit breaker opened", evt))
-        }
+    }
+
+    /**
+     * Applies either the per-request retry predicate, if provided, or the built-in rules. Note that this is called for the final attempt as well,
+     * in order to decide whether the request failed due to exhausted retries.
+     */
+    private _shouldRetry(err: unknown, isRetryable: (err: unknown, info?: AttemptInfo) => boolean): boolean {
+        const info = this._attemptInfo(err);
+        if (!info?.shouldRetry)
+            return isRetryable(err, info);
+        return info.shouldRetry(err, info.attempt, {endpoint: info.endpoint, url: info.url, method: info.method, idempotencyKey: info.idempotencyKey});
+    }
+
+    /**
+     * Checks the retry budget, if configured, for a retryable error. Note that this is called for the final attempt as well, which will not be retried.
+     */
+    private _retryPermitted(err: unknown, maxRetries: number): boolean {
+        const info = this._attemptInfo(err);
+        if (!this.#retryBudgets || !info || info.attempt > maxRetries)
+            return true;
+        if (this.#retryBudgets.budgetFor(info.url).withdraw())
+            return true;
+        this.#budgetExhausted.add(err as object);
+        return false;
     }
 
     /*
@@ -124,16 +330,34 @@ export class ResilientFetchClient extends SimpleFetchClient {
     */
     protected override async _fetchInternal<T>(url: string | URL | Request, endpoint: string, 
                 init: RequestInit&RequestOptions, defaultHeaders?: HeadersInit, defaultHeadersByMethod?: Record<MethodName, HeadersInit>): Promise<Response> {
-        const needsClone: boolean = url instanceof Request && !!this.#retry;
+        const method: string = SimpleFetchClient._methodForRequest(url, init);
+        const urlString: string = url instanceof Request ? url.url : url.toString();
+        const requestPolicy: RequestPolicy = this._policyForRequest(init);
+        const breakerEntry = init.circuitBreaker !== false ? this.#circuitBreakers?.breakerFor(urlString, method) : undefined;
+        const breaker: CircuitBreakerPolicy|undefined = breakerEntry?.breaker;
+        const queueOptions: QueueOptions = {priority: init.queuePriority, maxWait: init.maxQueueWait ?? this.#options?.parallelRequests?.maxQueueWait};
+        const totalTimeoutMillis: Milliseconds|undefined = requestPolicy.timeoutTotal;
+        const retryAfterSettings: RetryAfterSettings = requestPolicy.retryAfter;
+        const hedging: HedgingConfig|undefined = init.hedging === false || ResilientFetchClient._HEDGING_METHODS.indexOf(method) < 0 ? 
+            undefined : init.hedging ?? this.#options?.hedging;
+        if (init.hedging)
+            ResilientFetchClient._validateHedging(init.hedging);
+        const resendable: boolean = !!requestPolicy.retry || !!hedging;
+        const needsClone: boolean = url instanceof Request && resendable;
+        const rateLimitKey: string|undefined = this.#rateLimiter?.keyFor(urlString, method);
         const signal0 = init.signal!; // never null at this point
         delete init.signal;  // we have already created a copy of init, which we can safely modify
         const startTime = Date.now();
+        const idempotencyKey: string|undefined = requestPolicy.retry && requestPolicy.idempotencyKey 
+            && ResilientFetchClient._NON_IDEMPOTENT_METHODS.indexOf(method) >= 0 ? ResilientFetchClient._applyIdempotencyKey(url, init) : undefined;
         // state remembered between retries of the fetch function
-        let retryAfter: Date|undefined = undefined;
+        let nextRetryAfter: Date|undefined = undefined;
         let adaptedToRetryAfter: boolean = false;
         let clonedRequest: Request|undefined = undefined;
-        // run
-        const result = this.#policy.execute<Response>(async (context: {signal: AbortSignal}) => {
+        let attempts: number = 0;
+        const attemptErrors: Array<unknown> = [];
+        // retryAfter: the time indicated by the server in the previous attempt, if any
+        const executeAttempt = async (signal: AbortSignal, attempt: number, retryAfter: Date|undefined): Promise<Response> => {
             let currentUrl = url;
             if (needsClone) {
                 const base: Request = clonedRequest || url as Request; 
@@ -141,60 +365,263 @@ export class ResilientFetchClient extends SimpleFetchClient {
                 clonedRequest = copy;
                 currentUrl = base;
             }
-            init.signal = context.signal;
             if (retryAfter) {
                 const now = Date.now();
                 let diff = retryAfter.getTime() - now;
-                if (diff > 0 && this.#totalTimeoutMillis! > 0 && !adaptedToRetryAfter) {
+                if (diff > 0 && totalTimeoutMillis! > 0 && !adaptedToRetryAfter) {
                     const millisSpent = Date.now() - startTime;
-                    const millisAvailable = this.#totalTimeoutMillis! - millisSpent;
-                    // otherwise we'd likely run into the global timeout // TODO configurable safety margin?
-                    if (millisAvailable > 0 && millisAvailable - 5_000 < diff) {
-                        const safetyMargin = millisAvailable > 5_000 ? 5_000 : millisAvailable;
+                    const millisAvailable = totalTimeoutMillis! - millisSpent;
+                    // otherwise we'd likely run into the global timeout
+                    const margin: Milliseconds = retryAfterSettings.safetyMargin;
+                    if (millisAvailable > 0 && millisAvailable - margin < diff) {
+                        const safetyMargin = millisAvailable > margin ? margin : millisAvailable;
                         diff = millisAvailable - safetyMargin;  
                         adaptedToRetryAfter = true;
                     }
                 }
-                retryAfter = undefined;
                 if (diff > 0) {
                     await new Promise((resolve, reject) => {
                         const timeoutId = globalThis.setTimeout(resolve, diff);
-                        context.signal.addEventListener("abort", () => {
+                        signal.addEventListener("abort", () => {
                             globalThis.clearTimeout(timeoutId);
-                            reject(context.signal.reason);
+                            reject(signal.reason);
                         }, {once: true})
                     });
                 }
             }
-            const resp = await super._fetchInternal(currentUrl, endpoint, init, defaultHeaders, defaultHeadersByMethod, this.#retryAfterCodes);
-            // avoid appending the same header multiple times
-            defaultHeaders = undefined;
-            defaultHeadersByMethod = undefined;
-            if (this.#retryAfterCodes.indexOf(resp.status) >= 0) {
-                retryAfter = ResilientFetchClient._parseRetryAfterHeader(resp);
-                await SimpleFetchClient._throwHttpError(endpoint, resp, init);
+            // every attempt, including a concurrent hedged one, gets its own copy of init, since the headers are modified when the request is sent
+            const attemptInit: RequestInit&RequestOptions = {...init, signal: signal};
+            if (init.headers !== undefined)  // otherwise the headers of a Request object apply
+                attemptInit.headers = new Headers(init.headers);
+            const respPromise = super._fetchInternal(currentUrl, endpoint, attemptInit, defaultHeaders, defaultHeadersByMethod, retryAfterSettings.statusCodes, 
+                attempt, resendable);
+            let resp: Response;
+            try {
+                resp = await respPromise;
+            } catch (e) {
+                if (rateLimitKey !== undefined && e instanceof HttpError)
+                    this.#rateLimiter!.update(rateLimitKey, e.details.headers);
+                throw e;
+            }
+            if (rateLimitKey !== undefined)
+                this.#rateLimiter!.update(rateLimitKey, resp.headers);
+            if (retryAfterSettings.statusCodes.indexOf(resp.status) >= 0) {
+                const nextRetry: Date|undefined = ResilientFetchClient._parseRetryAfterHeader(resp, retryAfterSettings.headers);
+                nextRetryAfter = nextRetry;
+                const exceeded: boolean = !!nextRetry && retryAfterSettings.maxDelay !== undefined 
+                    && nextRetry.getTime() - Date.now() > retryAfterSettings.maxDelay;
+                try {
+                    await SimpleFetchClient._throwHttpError(endpoint, resp, attemptInit);
+                } catch (e) {
+                    if (exceeded && typeof e === "object" && e !== null)
+                        this.#retryAfterExceeded.add(e);
+                    throw e;
+                }
             }
             return resp;
+        };
+        // run
+        const result = requestPolicy.policy.execute<Response>(async (context: {signal: AbortSignal}) => {
+            const attempt: number = ++attempts;
+            // shared by the hedged requests of this attempt
+            const retryAfter: Date|undefined = nextRetryAfter;
+            nextRetryAfter = undefined;
+            if (attempt === 1)
+                this.#retryBudgets?.budgetFor(urlString).deposit();
+            // must be recorded before the error reaches the circuit breaker
+            const recordFailure = (e: unknown) => {
+                if (typeof e === "object" && e !== null)
+                    this.#attemptFailures.set(e, {endpoint: endpoint, method: method, attempt: attempt, url: urlString, 
+                        idempotencyKey: idempotencyKey, shouldRetry: init.shouldRetry});
+            };
+            const run = async (signal: AbortSignal): Promise<Response> => {
+                const start = Date.now();
+                try {
+                    const resp = !requestPolicy.timeout ? await executeAttempt(signal, attempt, retryAfter) : 
+                        await requestPolicy.timeout.execute(ctx => executeAttempt(ctx.signal, attempt, retryAfter), signal);
+                    if (ResilientFetchClient._HEDGING_METHODS.indexOf(method) >= 0)
+                        this.#latencies.record(Date.now() - start);
+                    return resp;
+                } catch (e) {
+                    // note: the timeout policy reports a timeout as well if the parent signal has been aborted
+                    const error = e instanceof TaskCancelledError && ResilientFetchClient._isTimeout(e) && !signal.aborted ? 
+                        new RequestTimeoutError("Request to " + endpoint + " timed out after " + requestPolicy.timeoutRequest + "ms", "request", requestPolicy.timeoutRequest!) : e;
+                    recordFailure(error);
+                    throw error;
+                }
+            };
+            // rate limiter -> bulkhead -> circuit breaker -> per-request timeout -> fetch; 
+            // the rate limiter comes first so that requests waiting for a token do not occupy a slot in the bulkhead
+            const guarded = async (signal: AbortSignal): Promise<Response> => {
+                if (rateLimitKey !== undefined) {
+                    const waited: Milliseconds = await this.#rateLimiter!.acquire(rateLimitKey, signal);
+                    if (waited > 0)
+                        this._emit("rateLimited", {endpoint: endpoint, method: method, attempt: attempt, waited: waited, key: rateLimitKey});
+                }
+                const withBreaker = (signal: AbortSignal) => breaker ? breaker.execute(ctx => run(ctx.signal), signal) : run(signal);
+                return this.#bulkhead ? this.#bulkhead.execute(withBreaker, signal, {...queueOptions, onDequeued: waited => 
+                    this._emit("bulkheadQueued", {endpoint: endpoint, method: method, attempt: attempt, waited: waited})}) : withBreaker(signal);
+            };
+            try {
+                if (attempt > 1)  // the initial attempt has been checked before entering the policy already
+                    await this._awaitOnline(endpoint, context.signal);
+                const hedgeDelay: Milliseconds|undefined = hedging ? this._hedgeDelay(hedging) : undefined;
+                if (hedgeDelay === undefined)
+                    return await guarded(context.signal);
+                const startHedge = (): boolean => {
+                    if (this.#retryBudgets && !this.#retryBudgets.budgetFor(urlString).withdraw())
+                        return false;
+                    this._emit("hedge", {endpoint: endpoint, method: method, attempt: attempt, delay: hedgeDelay});
+                    return true;
+                };
+                return await ResilientFetchClient._executeHedged(guarded, context.signal, hedgeDelay, startHedge);
+            } catch (e) {
+                const error = e instanceof BrokenCircuitError ? new CircuitOpenError("Request to " + endpoint + " prevented because the circuit breaker is open", 
+                    breakerEntry && CircuitBreakerRegistry.isScoped(this.#options!.circuitBreaker!) ? breakerEntry.key : undefined) : e;
+                recordFailure(error);
+                attemptErrors.push(error);
+                if (error instanceof RequestTimeoutError)
+                    this._emit("timeout", {endpoint: endpoint, method: method, attempt: attempt, scope: "request", timeout: error.timeout, error: error});
+                throw error;
+            }
         }, signal0);
         if (needsClone) {
             result  // ensure any unneeded cloned Request is consumed
                 .finally(() => new Promise(resolve => setTimeout(resolve, 250))
                     .finally(() => ResilientFetchClient._consumeRequest(clonedRequest))).catch(() => undefined);
         }
-        // return result;
-        // XXX this is a workaround for https://github.com/connor4312/cockatiel/issues/99
-        // but maybe it would be good to replace all the TaskCancelledErrors from 
-        // propagating to the user of this lib, and instead replace them by custom errors?
+        // cockatiel errors must not propagate to the user of this lib; an aborted request fails with the abort reason, like standard fetch
+        // (see also https://github.com/connor4312/cockatiel/issues/99)
         return result.catch(e => {
-            if (signal0.aborted && e instanceof TaskCancelledError)
+            // signals derived by cockatiel do not carry the reason of the original one
+            if (signal0.aborted && (e instanceof TaskCancelledError || (e as Error)?.name === "AbortError"))
                 throw signal0.reason ?? new DOMException("The operation was aborted", "AbortError");
-            throw e;
+            const error = this._finalError(e, {endpoint: endpoint, method: method, attempt: attempts}, totalTimeoutMillis);
+            // the error of the last attempt is propagated as is, so that callers can still check for an HttpError, for instance
+            if (attempts > 1 && error instanceof FetchClientError)
+                error.attemptErrors = [...attemptErrors];
+            throw error;
         });
     }
 
-    private static _parseRetryAfterHeader(resp: Response): Date|undefined {
-        const retryHeader = ResilientFetchClient._DEFAULT_RETRY_AFTER_HEADERS
-            .find(h => resp.headers.get(h));
+    private _finalError(e: unknown, eventBase: RequestEventBase, totalTimeoutMillis: Milliseconds|undefined): unknown {
+        if (e instanceof TaskCancelledError && ResilientFetchClient._isTimeout(e)) {  // per-request timeouts have been converted already
+            const error = new RequestTimeoutError("Request to " + eventBase.endpoint + " timed out after " + totalTimeoutMillis + "ms in total", "total", totalTimeoutMillis!);
+            this._emit("timeout", {...eventBase, scope: "total", timeout: totalTimeoutMillis!, error: error});
+            return error;
+        } else if (e instanceof QueueFullError) {  // the attempt never got started
+            this._emit("bulkheadRejected", {...eventBase, error: e});
+        } else if (this.#budgetExhausted.has(e as object)) {
+            this._emit("retryBudgetExhausted", {...eventBase, error: e});
+            return new RetryBudgetExhaustedError("Retry budget exhausted for request to " + eventBase.endpoint, {cause: e});
+        }
+        return e;
+    }
+
+    private _hedgeDelay(hedging: HedgingConfig): Milliseconds|undefined {
+        const learned: Milliseconds|undefined = hedging.percentile !== undefined ? this.#latencies.percentile(hedging.percentile) : undefined;
+        return learned ?? hedging.delay;
+    }
+
+    private static _validateHedging(hedging: HedgingConfig) {
+        if (hedging.delay === undefined && hedging.percentile === undefined)
+            throw new Error("Hedging config requires either delay or percentile");
+        if (hedging.percentile !== undefined && !(hedging.percentile > 0 && hedging.percentile < 100))
+            throw new RangeError("Hedging percentile must be between 0 and 100, got " + hedging.percentile);
+    }
+
+    /**
+     * Runs the request, and sends a second identical one if no response has arrived after the hedging delay. The first
+     * successful response wins, and the other request is aborted. If both fail, the error of the original request is propagated.
+     * @param startHedge returns false if the hedged request must not be sent
+     */
+    private static _executeHedged(run: (signal: AbortSignal) => Promise<Response>, signal: AbortSignal, delay: Milliseconds, 
+            startHedge: () => boolean): Promise<Response> {
+        return new Promise((resolve, reject) => {
+            const controllers: Array<AbortController> = [new AbortController()];
+            const abortAll = () => controllers.forEach(ctrl => ctrl.abort(signal.reason));
+            signal.addEventListener("abort", abortAll, {once: true});
+            let settled: boolean = false;
+            let pending: number = 1;
+            let originalError: {error: unknown}|undefined = undefined;
+            const finish = () => {
+                settled = true;
+                globalThis.clearTimeout(timer);
+                signal.removeEventListener("abort", abortAll);
+            };
+            const onSuccess = (idx: number) => (resp: Response) => {
+                pending--;
+                if (settled) {  // both requests succeeded
+                    resp.body?.cancel().catch(() => undefined);
+                    return;
+                }
+                finish();
+                controllers.forEach((ctrl, i) => {
+                    if (i !== idx)
+                        ctrl.abort(new DOMException("Hedged request lost the race", "AbortError"));
+                });
+                resolve(resp);
+            };
+            const onFailure = (idx: number) => (e: unknown) => {
+                pending--;
+                if (idx === 0)
+                    originalError = {error: e};
+                if (settled || pending > 0)  // wait for the other request
+                    return;
+                finish();
+                reject(originalError ? originalError.error : e);
+            };
+            const timer = globalThis.setTimeout(() => {
+                if (settled || !startHedge())
+                    return;
+                pending++;
+                const ctrl = new AbortController();
+                controllers.push(ctrl);
+                run(ctrl.signal).then(onSuccess(1), onFailure(1));
+            }, delay);
+            run(controllers[0].signal).then(onSuccess(0), onFailure(0));
+        });
+    }
+
+    private static _eventBase(info: AttemptInfo): RequestEventBase {
+        return {endpoint: info.endpoint, method: info.method, attempt: info.attempt};
+    }
+
+    private _attemptInfo(error: unknown): AttemptInfo|undefined {
+        return typeof error === "object" && error !== null ? this.#attemptFailures.get(error) : undefined;
+    }
+
+    private static _isOverload(err: unknown): boolean {
+        if (err instanceof HttpError)
+            return err.cause === "responseStatus" && ResilientFetchClient._OVERLOAD_CODES.indexOf((err.details as ResponseErrorCause).status) >= 0;
+        if (err instanceof RequestTimeoutError)
+            return true;
+        return err instanceof NetworkError;
+    }
+
+    private static _isTimeout(err: TaskCancelledError): boolean {
+        return err.message?.indexOf("timed out") >= 0;
+    }
+
+    /**
+     * Returns the Idempotency-Key provided by the caller, or generates a new one and adds it to the request headers.
+     * Following the IETF draft, the key is a structured header string, i.e. quoted.
+     */
+    private static _applyIdempotencyKey(url: string | URL | Request, init: RequestInit): string {
+        const header = ResilientFetchClient._IDEMPOTENCY_KEY_HEADER;
+        // note: if init.headers is set, it replaces the headers of a Request object
+        const headers = new Headers(init.headers ?? (url instanceof Request ? url.headers : undefined));
+        const existing = headers.get(header);
+        if (existing)
+            return existing;
+        const key = "\"" + globalThis.crypto.randomUUID() + "\"";
+        headers.set(header, key);
+        init.headers = headers;
+        return key;
+    }
+
+    private static _parseRetryAfterHeader(resp: Response, headers: Array<string>): Date|undefined {
+        const retryHeader = headers.find(h => resp.headers.get(h));
         if (!retryHeader)
             return undefined;
         const retryHeaderValue = resp.headers.get(retryHeader)!;
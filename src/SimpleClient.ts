@@ -1,44 +1,139 @@
-import { FetchClient, HttpError, JsonRequestOptions, JsonResult, MethodName, Milliseconds, RequestOptions } from "./client.js";
+import isNetworkError from "is-network-error";
+import { TokenAuth } from "./auth/TokenAuth.js";
+import { CircuitBreakerState, ClientClosedError, CloseResult, ConcurrencyState, ConnectivityMonitor, FetchClient, FetchClientEvents, FetchClientEventType, FetchClientOptions, HttpError, 
+    JsonRequestOptions, JsonResult, LogFields, LogLevel, MethodName, MiddlewareContext, Milliseconds, NetworkError, Outbox, RecordedExchange, RequestOptions, RequestRecorder, Span } from "./client.js";
+import { ConnectivityGate } from "./connectivity/ConnectivityGate.js";
+import { FaultInjector } from "./faults/FaultInjector.js";
+import { ClientLogger, ConsoleLogger } from "./logging/ClientLogger.js";
+import { CACHE_CONTEXT, CacheContextOption, MiddlewareChain } from "./middleware/MiddlewareChain.js";
+import { OfflineOutbox } from "./outbox/OfflineOutbox.js";
+import { ProgressTracker } from "./progress/ProgressTracker.js";
+import { RequestCoalescer } from "./resilience/RequestCoalescer.js";
+import { RequestTracer, TRACE_CONTEXT, TraceContextOption } from "./tracing/RequestTracer.js";
+
+/**
+ * Key of the request option by which the attempts of a request report their durations, for the complete event.
+ * Being a symbol, it survives the shallow copies of the request options made by the clients.
+ */
+const ATTEMPT_TIMINGS: unique symbol = Symbol("attemptTimings");
+
+interface AttemptTimings {
+    attempt?: number;
+    // start and duration of the first and the last attempt; the duration is undefined while the attempt is running
+    firstStart?: number;
+    first?: Milliseconds;
+    lastStart?: number;
+    last?: Milliseconds;
+}
+
+type AttemptTimingsOption = {[ATTEMPT_TIMINGS]?: AttemptTimings};
 
 export class SimpleFetchClient implements FetchClient {
 
+    // the request event is logged by the attempt itself, including the headers
+    static readonly #EVENT_LOGS: Partial<Record<FetchClientEventType, [LogLevel, string]>> = {
+        response: ["debug", "Response received"],
+        retry: ["info", "Retrying request"],
+        retryBudgetExhausted: ["warn", "Retry budget exhausted"],
+        hedge: ["debug", "Sending hedged request"],
+        rateLimited: ["debug", "Request delayed by rate limit"],
+        timeout: ["warn", "Request timed out"],
+        bulkheadRejected: ["warn", "Request rejected by bulkhead"],
+        bulkheadQueued: ["debug", "Request left bulkhead queue"],
+        circuitOpen: ["warn", "Circuit breaker opened"],
+        circuitHalfOpen: ["info", "Circuit breaker half-open"],
+        circuitClose: ["info", "Circuit breaker closed"],
+        complete: ["debug", "Request completed"]
+    };
+
     readonly #baseUrl?: string;
-    readonly #abortControllers: Array<AbortController> = [];
+    // requests in flight, keyed by the controller that aborts them
+    readonly #inFlight: Map<AbortController, Promise<Response>> = new Map();
     readonly #defaultHeaders?: HeadersInit;
     readonly #defaultHeadersByMethod?: Record<MethodName, HeadersInit>;
     readonly #skipFailOnErrorCode?: boolean;
     readonly #fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+    // the listeners of an event type all accept the event of that type, see _listeners
+    readonly #listeners: Map<FetchClientEventType, Set<(event: never) => void>> = new Map();
+    readonly #middleware: MiddlewareChain|undefined;
+    readonly #auth: TokenAuth|undefined;
+    readonly #coalescer: RequestCoalescer|undefined;
+    readonly #outbox: OfflineOutbox|undefined;
+    readonly #connectivity: ConnectivityGate|undefined;
+    readonly #recorder: RequestRecorder|undefined;
+    readonly #tracer: RequestTracer|undefined;
+    protected readonly _logger: ClientLogger;
     #closed: boolean = false;
+    #closing: Promise<CloseResult>|undefined = undefined;
 
-    constructor(
-            fetch?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>,
-            baseUrl?: string,
-            defaultHeaders?: HeadersInit,
-            defaultHeadersByMethod?: Record<MethodName, HeadersInit>,
-            skipFailOnErrorCode?: boolean
-        ) {
-        this.#fetch = fetch || globalThis.fetch.bind(globalThis);
-        this.#baseUrl = baseUrl;
-        this.#defaultHeaders = defaultHeaders;
-        this.#defaultHeadersByMethod = defaultHeadersByMethod;
-        this.#skipFailOnErrorCode = skipFailOnErrorCode;
+    /**
+     * @param options only the settings applicable to a simple client are evaluated, the resilience settings are ignored
+     */
+    constructor(options?: FetchClientOptions) {
+        const baseFetch = options?.fetch || globalThis.fetch.bind(globalThis);
+        this.#fetch = options?.faults ? new FaultInjector(options.faults, baseFetch).fetch : baseFetch;
+        this.#baseUrl = options?.baseUrl;
+        this.#recorder = options?.recorder;
+        this._logger = new ClientLogger(options?.logger ?? (options?.consoleLogHttpIssues ? new ConsoleLogger() : undefined));
+        this.#tracer = options?.tracing ? new RequestTracer(options.tracing) : undefined;
+        this.#defaultHeaders = options?.defaultHeaders;
+        this.#defaultHeadersByMethod = options?.defaultHeadersByMethod;
+        this.#skipFailOnErrorCode = options?.defaultSkipFailOnErrorCode;
+        const middleware = options?.middleware;
+        this.#middleware = middleware && middleware.length > 0 ? new MiddlewareChain(middleware) : undefined;
+        this.#auth = options?.auth ? new TokenAuth(options.auth) : undefined;
+        const coalescing = options?.coalescing;
+        this.#coalescer = coalescing ? new RequestCoalescer(coalescing === true ? {} : coalescing) : undefined;
+        const connectivity = options?.connectivity;
+        this.#connectivity = connectivity ? new ConnectivityGate(connectivity === true ? {} : connectivity) : undefined;
+        const outbox = options?.outbox;
+        this.#outbox = outbox ? new OfflineOutbox(outbox === true ? {} : outbox, (url, init) => this.fetch(url, init), this.#connectivity?.monitor(), 
+            this._logger) : undefined;
     }
 
     fetch(input: RequestInfo | URL, init?: RequestInit&RequestOptions): Promise<Response> {
         if (this.#closed)
-            throw new Error("Client has been closed");
+            return Promise.reject(new ClientClosedError("Client has been closed"));
         const endpoint: string = SimpleFetchClient._endpointForInput(input);
         const url = SimpleFetchClient._concatPaths(this.#baseUrl, endpoint);
+        const coalesceKey: string|undefined = this.#coalescer && init?.coalesce !== false ? this.#coalescer.keyFor(SimpleFetchClient._methodForRequest(input, init), 
+            url, new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined))) : undefined;
+        if (coalesceKey !== undefined) {
+            const signal: AbortSignal = init?.signal || (input as Request)?.signal || new AbortController().signal;
+            return this.#coalescer!.execute(coalesceKey, signal, sharedSignal => this._fetch(input, endpoint, url, {...init, signal: sharedSignal}));
+        }
+        const method: string = SimpleFetchClient._methodForRequest(input, init);
+        if (this.#outbox && init?.outbox !== false && this.#outbox.accepts(method) && !(input instanceof Request && input.body))
+            return this._fetch(input, endpoint, url, init).catch(e => this.#outbox!.queueOnNetworkError(endpoint, method, init, e));
+        return this._fetch(input, endpoint, url, init);
+    }
+
+    private _fetch(input: RequestInfo | URL, endpoint: string, url: string, init?: RequestInit&RequestOptions): Promise<Response> {
         const ctrl: AbortController = SimpleFetchClient._derivedSignalController(init?.signal || (input as Request)?.signal);
-        this.#abortControllers.push(ctrl);
-        init = init ? {...init} : {};  // do not modify the original init, it may be reused
-        init.signal = ctrl.signal; 
-        const result = this._fetchInternal((input instanceof Request) ? input : url, endpoint, init, this.#defaultHeaders, this.#defaultHeadersByMethod);
-        result.finally(() => {
-            const idx = this.#abortControllers.indexOf(ctrl);
-            if (idx >= 0)
-                this.#abortControllers.splice(idx, 1);
-        }).catch(() => undefined);  // important for node => no uncaught error in promise
+        const method: string = SimpleFetchClient._methodForRequest(input, init);
+        const target = (input instanceof Request) ? input : url;
+        const timings: AttemptTimings = {};
+        // a caching client may have opened the span of the request already
+        const inheritedSpan: Span|undefined = (init as TraceContextOption|undefined)?.[TRACE_CONTEXT];
+        const span: Span|undefined = this.#tracer && !inheritedSpan ? this.#tracer.startRequest(method, target, 
+            new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined))) : undefined;
+        // do not modify the original init, it may be reused
+        init = {...init, signal: ctrl.signal, [ATTEMPT_TIMINGS]: timings, [TRACE_CONTEXT]: inheritedSpan ?? span} as RequestInit&RequestOptions;
+        const start: number = Date.now();
+        const result = this.#connectivity ? this.#connectivity.acquire(endpoint, ctrl.signal).then(() => 
+                this._fetchInternal(target, endpoint, init!, this.#defaultHeaders, this.#defaultHeadersByMethod)) :
+            this._fetchInternal(target, endpoint, init, this.#defaultHeaders, this.#defaultHeadersByMethod);
+        this.#inFlight.set(ctrl, result);
+        // an attempt may still be running, e.g. after a timeout
+        const complete = (status: number|undefined, error?: unknown) => {
+            RequestTracer.end(span, status, error);
+            this._emit("complete", {endpoint: endpoint, method: method, attempt: timings.attempt ?? 1, 
+                status: status, error: error, duration: Date.now() - start, 
+                firstAttempt: timings.first ?? (timings.firstStart !== undefined ? Date.now() - timings.firstStart : undefined), 
+                lastAttempt: timings.last ?? (timings.lastStart !== undefined ? Date.now() - timings.lastStart : undefined)});
+        };
+        result.then(resp => complete(resp.status), e => complete(e instanceof HttpError && e.details.cause === "responseStatus" ? e.details.status : undefined, e));
+        result.finally(() => this.#inFlight.delete(ctrl)).catch(() => undefined);  // important for node => no uncaught error in promise
         return result;
     }
 
@@ -67,43 +162,212 @@ export class SimpleFetchClient implements FetchClient {
     }
 
     abortAll(reason?: any) {
-        this.#abortControllers.forEach(a => a.abort(reason));
-        this.#abortControllers.splice(0, this.#abortControllers.length);
+        this.#inFlight.forEach((_, ctrl) => ctrl.abort(reason));
     }
 
     baseUrl() {
         return this.#baseUrl;
     }
 
-    async close(options?: { timeout?: Milliseconds; }): Promise<unknown> {
-        this.#closed = true;
-        if (options?.timeout === 0 || this.#abortControllers.length === 0) { 
-            this.abortAll(new Error("Client closed"));
-            return Promise.resolve();
+    circuitState(key?: string): CircuitBreakerState|undefined {
+        return undefined;
+    }
+
+    isolateCircuit(key?: string): boolean {
+        return false;
+    }
+
+    resetCircuit(key?: string): boolean {
+        return false;
+    }
+
+    concurrency(): ConcurrencyState|undefined {
+        return undefined;
+    }
+
+    outbox(): Outbox|undefined {
+        return this.#outbox;
+    }
+
+    connectivity(): ConnectivityMonitor|undefined {
+        return this.#connectivity?.monitor();
+    }
+
+    /**
+     * Waits for the client to be online, if connectivity awareness is enabled, or fails with an OfflineError
+     */
+    protected _awaitOnline(endpoint: string, signal: AbortSignal): Promise<void> {
+        return this.#connectivity ? this.#connectivity.acquire(endpoint, signal) : Promise.resolve();
+    }
+
+    on<E extends FetchClientEventType>(event: E, listener: (event: FetchClientEvents[E]) => void): () => void {
+        let listeners = this._listeners(event);
+        if (!listeners) {
+            listeners = new Set();
+            this.#listeners.set(event, listeners);
+        }
+        listeners.add(listener);
+        return () => listeners!.delete(listener);
+    }
+
+    private _listeners<E extends FetchClientEventType>(event: E): Set<(event: FetchClientEvents[E]) => void>|undefined {
+        return this.#listeners.get(event) as Set<(event: FetchClientEvents[E]) => void>|undefined;
+    }
+
+    protected _emit<E extends FetchClientEventType>(event: E, data: FetchClientEvents[E]) {
+        const log = SimpleFetchClient.#EVENT_LOGS[event];
+        if (log)
+            this._logger.log(log[0], log[1], data as LogFields);
+        const listeners = this._listeners(event);
+        if (!listeners)
+            return;
+        for (const listener of listeners) {
+            try {
+                listener(data);
+            } catch (e) {  // listeners must not interfere with request processing
+                this._logger.warn("Event listener failed", {event: event, error: e});
+            }
         }
-        // there is no promise we could wait for...
-        const start: Milliseconds = Date.now();
-        const step: Milliseconds = 50;
-        for (let waited: Milliseconds=0;  options?.timeout !== undefined ? waited<options?.timeout! + step : true; waited = Date.now() - start) {
-            await new Promise(resolve => setTimeout(resolve, step));
-            if (this.#abortControllers.length === 0)
-                return Promise.resolve();
+    }
+
+    close(options?: { timeout?: Milliseconds; }): Promise<CloseResult> {
+        if (!this.#closing)
+            this.#closing = this._close(options?.timeout);
+        return this.#closing;
+    }
+
+    private async _close(timeout: Milliseconds|undefined): Promise<CloseResult> {
+        this.#closed = true;
+        this.#outbox?.close();
+        this.#connectivity?.close();
+        const reason = new ClientClosedError("Client closed");
+        const requests: Array<Promise<Response>> = Array.from(this.#inFlight.values());
+        const queued: number = this._rejectQueued(reason);
+        const drained: Promise<unknown> = Promise.allSettled(requests);
+        if (timeout !== undefined) {
+            // note: even for timeout 0 we let the rejected queued requests settle first
+            let timer: ReturnType<typeof setTimeout>|undefined = undefined;
+            await Promise.race([drained, new Promise(resolve => timer = globalThis.setTimeout(resolve, timeout))]);
+            globalThis.clearTimeout(timer);
+        } else {
+            await drained;
         }
-        this.abortAll(new Error("Client closed"));
-        return Promise.resolve();
+        // no new requests are accepted after close, so the remaining ones are the ones we abort
+        const aborted: number = this.#inFlight.size;
+        this.abortAll(reason);
+        return {completed: Math.max(0, requests.length - queued - aborted), aborted: aborted, queued: queued};
+    }
+
+    /**
+     * Rejects the requests waiting in the bulkhead queue, if any, on close
+     * @returns the number of rejected requests
+     */
+    protected _rejectQueued(reason: unknown): number {
+        return 0;
     }
 
     // note that at this point init has been copied, so we can safely modify it without causing unwanted side effects
+    // resendable: true if the request may be sent again, by a retry or a hedged request, so that its body must not be consumed by a stream
     protected async _fetchInternal<T>(url: string | URL | Request, endpoint: string, 
                 init: RequestInit&RequestOptions, defaultHeaders?: HeadersInit, defaultHeadersByMethod?: Record<MethodName, HeadersInit>, 
-                skipThrowOnCodes?: Array<number>): Promise<Response> {
+                skipThrowOnCodes?: Array<number>, attempt: number = 1, resendable: boolean = false): Promise<Response> {
         if (defaultHeaders || defaultHeadersByMethod)
             SimpleFetchClient._applyDefaultHeaders(init, url, defaultHeaders, defaultHeadersByMethod);
-        const resp = await this.#fetch(url, init);
-        if (!resp.ok && !this.#skipFailOnErrorCode && !init?.skipFailOnErrorCode && !(skipThrowOnCodes?.indexOf(resp.status)! >= 0)) {
-            await SimpleFetchClient._throwHttpError(endpoint, resp, init);
+        const method: string = SimpleFetchClient._methodForRequest(url, init);
+        const send = async (url: string | URL | Request, requestInit: RequestInit): Promise<Response> => {
+            const span: Span|undefined = this.#tracer?.startAttempt((init as TraceContextOption)[TRACE_CONTEXT], method, url, attempt);
+            if (span)
+                requestInit = this.#tracer!.inject(span, url, requestInit);
+            const recorded: RecordedExchange|undefined = this.#recorder ? await SimpleFetchClient._recordedRequest(url, requestInit, endpoint, attempt) : undefined;
+            if (this._logger.enabled("debug"))
+                this._logger.debug("Sending request", {endpoint: endpoint, method: method, attempt: attempt, 
+                    headers: new Headers(requestInit.headers ?? (url instanceof Request ? url.headers : undefined))});
+            this._emit("request", {endpoint: endpoint, method: method, attempt: attempt});
+            const start: number = Date.now();
+            SimpleFetchClient._attemptStarted(init, attempt, start);
+            let resp: Response;
+            try {
+                resp = await (init.onUploadProgress ? 
+                    ProgressTracker.upload(this.#fetch, url, requestInit, init.onUploadProgress, attempt, !resendable) : this.#fetch(url, requestInit));
+            } catch (e) {
+                SimpleFetchClient._attemptCompleted(init, start);
+                if (recorded)
+                    this._record({...recorded, wait: Date.now() - start, error: e});
+                const error = isNetworkError(e) ? new NetworkError("Request to " + endpoint + " failed: " + (e as Error).message, {cause: e}) : e;
+                RequestTracer.end(span, undefined, error);
+                throw error;
+            }
+            SimpleFetchClient._attemptCompleted(init, start);
+            RequestTracer.end(span, resp.status);
+            if (recorded)
+                this._record({...recorded, wait: Date.now() - start, response: resp.clone()});
+            this._emit("response", {endpoint: endpoint, method: method, attempt: attempt, status: resp.status, duration: Date.now() - start});
+            return init.onDownloadProgress ? ProgressTracker.trackDownload(resp, init.onDownloadProgress, attempt) : resp;
+        };
+        const validate = async (resp: Response): Promise<void> => {
+            if (!resp.ok && !this.#skipFailOnErrorCode && !init?.skipFailOnErrorCode && !(skipThrowOnCodes?.indexOf(resp.status)! >= 0)) {
+                await SimpleFetchClient._throwHttpError(endpoint, resp, init);
+            }
+        };
+        const execute = async (url: string | URL | Request, requestInit: RequestInit): Promise<Response> => {
+            if (this.#middleware) {
+                const context: MiddlewareContext = {endpoint: endpoint, method: method, attempt: attempt, cache: (init as CacheContextOption)[CACHE_CONTEXT]};
+                return this.#middleware.execute(url, requestInit, context, send, validate);
+            }
+            const resp = await send(url, requestInit);
+            await validate(resp);
+            return resp;
+        };
+        return this.#auth && !init.skipAuth ? this.#auth.execute(url, init, execute) : execute(url, init);
+    }
+
+    private static _attemptStarted(init: RequestInit&AttemptTimingsOption, attempt: number, start: number) {
+        const timings = init[ATTEMPT_TIMINGS];
+        if (!timings)
+            return;
+        if (timings.firstStart === undefined)
+            timings.firstStart = start;
+        timings.attempt = attempt;
+        timings.lastStart = start;
+        timings.last = undefined;
+    }
+
+    private static _attemptCompleted(init: RequestInit&AttemptTimingsOption, start: number) {
+        const timings = init[ATTEMPT_TIMINGS];
+        if (!timings)
+            return;
+        const duration: Milliseconds = Date.now() - start;
+        if (start === timings.firstStart && timings.first === undefined)
+            timings.first = duration;
+        if (start === timings.lastStart)
+            timings.last = duration;
+    }
+
+    private _record(exchange: RecordedExchange) {
+        try {
+            this.#recorder!.record(exchange);
+        } catch (e) {  // the recorder must not interfere with request processing
+            this._logger.warn("Request recorder failed", {endpoint: exchange.endpoint, method: exchange.method, attempt: exchange.attempt, error: e});
         }
-        return resp;
+    }
+
+    private static async _recordedRequest(url: string | URL | Request, init: RequestInit, endpoint: string, attempt: number): Promise<RecordedExchange> {
+        let body: ArrayBuffer|undefined = undefined;
+        if (init.body !== undefined && init.body !== null && !(init.body instanceof ReadableStream)) {
+            try {
+                body = await new Response(init.body).arrayBuffer();
+            } catch (_) {}
+        }
+        return {
+            endpoint: endpoint,
+            method: SimpleFetchClient._methodForRequest(url, init),
+            url: url instanceof Request ? url.url : url.toString(),
+            attempt: attempt,
+            requestHeaders: new Headers(init.headers ?? (url instanceof Request ? url.headers : undefined)),
+            requestBody: body,
+            started: new Date(),
+            wait: 0
+        };
     }
 
     // note: must be awaited!
@@ -113,6 +377,10 @@ export class SimpleFetchClient implements FetchClient {
                 status: resp.status, statusText: resp.statusText, headers: resp.headers});
     }
 
+    public static _methodForRequest(url: RequestInfo | URL, init?: RequestInit): string {
+        return (init?.method || (url as Request)?.method || "GET").toUpperCase();
+    }
+
     private static _applyDefaultHeaders(init: RequestInit&RequestOptions, url: string | URL | Request,
         defaultHeaders?: HeadersInit, defaultHeadersByMethod?: Record<MethodName, HeadersInit>
     ) {
@@ -215,7 +483,7 @@ export class SimpleFetchClient implements FetchClient {
         return msg;
     }
 
-    private static _concatPaths(s1: string|undefined, s2: string) {
+    public static _concatPaths(s1: string|undefined, s2: string) {
         if (!s1)
             return s2;
         if (!s2)
@@ -229,7 +497,7 @@ export class SimpleFetchClient implements FetchClient {
         return s1 + s2;
     }
 
-    private static _endpointForInput(input: RequestInfo | URL): string {
+    public static _endpointForInput(input: RequestInfo | URL): string {
         return typeof(input) === "string" ? input : input instanceof Request ? input.url : input?.toString();
     }
 
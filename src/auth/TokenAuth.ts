@@ -0,0 +1,85 @@
+import { AuthProvider, HttpError, ResponseErrorCause } from "../client.js";
+
+/**
+ * Adds the token of an {@link AuthProvider} to requests, and replays a request once after refreshing the token on status 401.
+ * Concurrent refreshes are collapsed into a single one.
+ */
+export class TokenAuth {
+
+    static readonly #UNAUTHORIZED = 401;
+    readonly #header: string;
+    readonly #scheme: string;
+    #refresh: Promise<unknown>|undefined = undefined;
+
+    constructor(private readonly _provider: AuthProvider) {
+        this.#header = _provider.header || "Authorization";
+        this.#scheme = _provider.scheme ?? "Bearer";
+    }
+
+    /**
+     * @param send sends the request with the provided settings, and throws an HttpError for error status codes, unless disabled
+     */
+    async execute(url: string|URL|Request, init: RequestInit, send: (url: string|URL|Request, init: RequestInit) => Promise<Response>): Promise<Response> {
+        const token: string|undefined = await this._currentToken();
+        // the body of a Request object can only be read once
+        const replayUrl: string|URL|Request = url instanceof Request && url.body ? url.clone() : url;
+        let response: Response;
+        try {
+            response = await send(url, this._withToken(url, init, token));
+        } catch (e) {
+            if (!TokenAuth._isUnauthorized(e))
+                throw e;
+            return this._replay(replayUrl, init, token, send);
+        }
+        if (response.status !== TokenAuth.#UNAUTHORIZED) {
+            if (replayUrl !== url)
+                (replayUrl as Request).body?.cancel().catch(() => undefined);
+            return response;
+        }
+        response.body?.cancel().catch(() => undefined);
+        return this._replay(replayUrl, init, token, send);
+    }
+
+    private async _replay(url: string|URL|Request, init: RequestInit, previousToken: string|undefined,
+            send: (url: string|URL|Request, init: RequestInit) => Promise<Response>): Promise<Response> {
+        let token: string|undefined = await this._currentToken();
+        if (token === previousToken) {  // otherwise another request has refreshed the token in the meantime
+            await this._refreshToken();
+            token = await this._provider.getToken();
+        }
+        return send(url, this._withToken(url, init, token));
+    }
+
+    private async _currentToken(): Promise<string|undefined> {
+        if (this.#refresh)
+            await this.#refresh.catch(() => undefined);
+        return this._provider.getToken();
+    }
+
+    private _refreshToken(): Promise<unknown> {
+        if (!this.#refresh) {
+            const refresh = Promise.resolve().then(() => this._provider.refreshToken());
+            this.#refresh = refresh;
+            refresh.finally(() => {
+                if (this.#refresh === refresh)
+                    this.#refresh = undefined;
+            }).catch(() => undefined);
+        }
+        return this.#refresh;
+    }
+
+    private _withToken(url: string|URL|Request, init: RequestInit, token: string|undefined): RequestInit {
+        if (token === undefined)
+            return init;
+        // note: init may be shared between retries, hence it must not be modified
+        const headers = new Headers(init.headers ?? (url instanceof Request ? url.headers : undefined));
+        headers.set(this.#header, this.#scheme ? this.#scheme + " " + token : token);
+        return {...init, headers: headers};
+    }
+
+    private static _isUnauthorized(error: unknown): boolean {
+        return error instanceof HttpError && error.details.cause === "responseStatus"
+            && (error.details as ResponseErrorCause).status === TokenAuth.#UNAUTHORIZED;
+    }
+
+}
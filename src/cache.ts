@@ -1,5 +1,7 @@
 import { factoryLoaders } from "./cache/CachingClient.js";
-import { CacheConfiguration, CacheControl, Milliseconds } from "./client.js";
+import { CircuitBreakerCacheStore } from "./cache/CircuitBreakerCacheStore.js";
+import { OutboxCacheStore } from "./cache/OutboxCacheStore.js";
+import { CacheConfiguration, CacheControl, CircuitBreakerStore, Milliseconds, OutboxStore } from "./client.js";
 
 // =========================================================================== //
 // This file contains provider interfaces for cache functionality.             //
@@ -72,3 +74,26 @@ export function registerCacheProvider(providerId: string, loader: (options: Cach
     }
     factoryLoaders[providerId] = loader;
 }
+
+/**
+ * Create a store for persisting circuit breaker states based on one of the cache providers, 
+ * see {@link FetchClientOptions.circuitBreakerStore}. Typically, the "indexeddb" provider is used, so that the
+ * state survives page reloads; consider setting its persistencePeriod to 0 in this case, so that state changes are persisted immediately.
+ * @param config the cache provider configuration
+ * @param table Default: "CircuitBreakers"
+ */
+export function createCircuitBreakerStore(config: CacheConfiguration, table: string = "CircuitBreakers"): CircuitBreakerStore {
+    return new CircuitBreakerCacheStore(config, table);
+}
+
+/**
+ * Create a store for the outbox of failed mutations based on one of the cache providers, see {@link OutboxConfig.store}. 
+ * Typically, the "indexeddb" provider is used, so that queued requests survive page reloads; consider setting its persistencePeriod to 0 
+ * in this case, so that entries are persisted immediately. The maxItems setting of the configuration is ignored, since queued requests
+ * must not be evicted; for the same reason, the "memorylru" provider is not supported.
+ * @param config the cache provider configuration
+ * @param table Default: "Outbox"
+ */
+export function createOutboxStore(config: CacheConfiguration, table: string = "Outbox"): OutboxStore {
+    return new OutboxCacheStore(config, table);
+}
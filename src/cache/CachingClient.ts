@@ -1,8 +1,10 @@
-import isNetworkError from "is-network-error";
 import { CachedObject, CacheFactory, CacheRequestOptions, ObjectCache } from "../cache.js";
-import { CacheConfiguration, CacheControl, CachingRequestCacheFirstConfig, CachingRequestConfig, FetchClient, FetchClientCaching, 
-        HttpError, JsonRequestOptions, JsonResult, Milliseconds, NoUpdateError, RequestOptions, Seconds} from "../client.js";        
+import { CacheConfiguration, CacheControl, CacheEvent, CircuitBreakerState, CloseResult, ConcurrencyState, ConnectivityMonitor, CachingRequestCacheFirstConfig, CachingRequestConfig, FetchClient, FetchClientCaching, 
+        FetchClientEvents, FetchClientEventType, FetchClientOptions, HttpError, JsonRequestOptions, JsonResult, Milliseconds, NetworkError, NoUpdateError, Outbox, RequestOptions, Seconds, Span} from "../client.js";        
+import { ClientLogger } from "../logging/ClientLogger.js";
+import { CACHE_CONTEXT, CacheContextOption } from "../middleware/MiddlewareChain.js";
 import { SimpleFetchClient } from "../SimpleClient.js";
+import { RequestTracer, TRACE_CONTEXT, TraceContextOption } from "../tracing/RequestTracer.js";
 
 
 export class CachingClient implements FetchClientCaching {
@@ -20,18 +22,27 @@ export class CachingClient implements FetchClientCaching {
      * OUter key: cache id, inner key: table
      */
     readonly #caches: Map<string, Map<string, Promise<ObjectCache<any, any>>>> = new Map();
+    // cache writes triggered by requests, awaited on close
+    readonly #pendingWrites: Set<Promise<unknown>> = new Set();
+    readonly #cacheListeners: Set<(event: CacheEvent) => void> = new Set();
+    readonly #tracer: RequestTracer|undefined;
+    readonly #logger: ClientLogger;
     
 
     constructor(
             private readonly _delegate: FetchClient, 
-            cacheProvider: CacheConfiguration|Array<CacheConfiguration>
+            cacheProvider: CacheConfiguration|Array<CacheConfiguration>,
+            options?: FetchClientOptions
             ) {
         cacheProvider = Array.isArray(cacheProvider) ? cacheProvider : [cacheProvider];
         const nonExistentProvider = cacheProvider.find(p => !(p.id in factoryLoaders));
         if (nonExistentProvider)
             throw new Error("Unknown cache provider " + nonExistentProvider);
-        this.#cacheLoaders = new Map(cacheProvider.map(provider => [provider.id, () => factoryLoaders[provider.id](provider)]));
+        this.#logger = new ClientLogger(options?.logger);
+        // the caches log via the client, unless the provider config specifies a logger of its own
+        this.#cacheLoaders = new Map(cacheProvider.map(provider => [provider.id, () => factoryLoaders[provider.id]({logger: this.#logger, ...provider})]));
         this.#availableCaches = Object.freeze(Array.from(this.#cacheLoaders.keys()));
+        this.#tracer = options?.tracing ? new RequestTracer(options.tracing) : undefined;
     }
 
     // TODO support caching here as well
@@ -45,31 +56,66 @@ export class CachingClient implements FetchClientCaching {
         const cacheConfig: CachingRequestConfig<T>|undefined = init?.useCache;
         if (/*!cacheConfig?.mode*/ !cacheConfig?.key || cacheConfig?.forcedCacheControl?.noStore  || cacheConfig?.forcedCacheControl?.maxAge === false)
             return this._delegate.fetchJson(input, init);
+        if (!this.#tracer)
+            return this._fetchJsonCached(input, init!);
+        // the span covers the cache lookups as well as the request, which is sent by the delegate
+        const span: Span|undefined = this.#tracer.startRequest(SimpleFetchClient._methodForRequest(input, init), 
+            input instanceof Request ? input : SimpleFetchClient._concatPaths(this._delegate.baseUrl(), SimpleFetchClient._endpointForInput(input)),
+            new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined)));
+        try {
+            const result = await this._fetchJsonCached(input, {...init!, [TRACE_CONTEXT]: span});
+            RequestTracer.end(span);
+            return result;
+        } catch (e) {
+            RequestTracer.end(span, e instanceof HttpError && e.details.cause === "responseStatus" ? e.details.status : undefined, e);
+            throw e;
+        }
+    }
+
+    private async _fetchJsonCached<T>(input: RequestInfo | URL, init: RequestInit & JsonRequestOptions & {useCache?: CachingRequestConfig<T>} & TraceContextOption): 
+                    Promise<JsonResult<T>&{update?: Promise<JsonResult<T>>;}> {
+        const cacheConfig: CachingRequestConfig<T> = init.useCache!;
         const table: string = cacheConfig.table || CachingClient.#DEFAULT_TABLE;
         const activeCaches = cacheConfig.activeCache ? (Array.isArray(cacheConfig.activeCache) ? cacheConfig.activeCache : [cacheConfig.activeCache]) : this.#availableCaches
         const cache: ObjectCache<T, any>|undefined = await this._getAvailableCache(activeCaches, table);
         if (!cache)
             return this._delegate.fetchJson(input, init);
-        const init2: RequestInit = {...init};
+        const init2: RequestInit&CacheContextOption = {...init, [CACHE_CONTEXT]: {key: cacheConfig.key, state: "unknown"}};
         const signal0: AbortSignal|undefined = init?.signal || (input as Request)?.signal;
         const useCacheControl = cacheConfig.mode === "cacheControl" || cacheConfig.mode === undefined;
         const cacheAbort: AbortController = CachingClient._derivedSignalController(signal0);
         const cacheReqOptions: CacheRequestOptions = {signal: cacheAbort.signal};
         const update = (cacheConfig as CachingRequestCacheFirstConfig<T>).update;
+        // while offline, a stale entry is preferable to a request that cannot succeed
+        if (this._delegate.connectivity()?.online() === false) {
+            const cacheResult: CachedObject<any>|undefined = await this._cacheGet(cache, cacheConfig.key, cacheReqOptions, table, init).catch(() => undefined);
+            const state: CacheState["state"]|undefined = cacheResult?.value ? CachingClient._cacheState(cacheResult, 
+                    {defaultCacheControl: cacheConfig?.defaultCacheControl, forcedCacheControl: cacheConfig?.forcedCacheControl}).state : undefined;
+            if (cacheResult && state !== undefined && state !== CacheStateCore.DISABLED) {
+                this._emitCache(input, init, cacheConfig.key, state === CacheStateCore.FRESH ? "hit" : "stale");
+                return update ? {...cacheResult, update: Promise.reject(new NoUpdateError("Client is offline, no update available."))} : cacheResult;
+            }
+        }
         if (useCacheControl) {
-            const cacheResult: CachedObject<any>|undefined = await cache.get(cacheConfig.key, 
-                    {...cacheReqOptions, timeout: (cacheConfig as CachingRequestCacheFirstConfig<T>).cacheTimeout});
+            const cacheResult: CachedObject<any>|undefined = await this._cacheGet(cache, cacheConfig.key, 
+                    {...cacheReqOptions, timeout: (cacheConfig as CachingRequestCacheFirstConfig<T>).cacheTimeout}, table, init);
             const cachedAvailable: boolean = !!cacheResult?.value;
             let cacheState: CacheState = {state: CacheStateCore.DISABLED};
             if (cachedAvailable) {
                 cacheState = CachingClient._cacheState(cacheResult!,
                               {defaultCacheControl: cacheConfig?.defaultCacheControl, forcedCacheControl: cacheConfig?.forcedCacheControl});
-                if (cacheState.state === CacheStateCore.FRESH)
+                if (cacheState.state === CacheStateCore.FRESH) {
+                    this._emitCache(input, init, cacheConfig.key, "hit");
                     return update ? {...cacheResult!, update: Promise.reject(new NoUpdateError("Fresh cache result, no update needed.")) }: cacheResult!;
+                }
             }
+            init2[CACHE_CONTEXT] = {key: cacheConfig.key, state: cacheState.state === CacheStateCore.STALE ? "stale" : "miss"};
             if (cacheState.state === CacheStateCore.DISABLED) {
-                const resultPromise = this._delegate.fetchJson<T>(input, init2);
-                resultPromise.then(f => this._updateCache(cacheConfig.key, f.value, f.headers, cache, cacheConfig)).catch(() => undefined);
+                const resultPromise = this._delegate.fetchJson<T>(input, init2).then(result => {
+                    this._emitCache(input, init, cacheConfig.key, "miss");
+                    return result;
+                });
+                this._trackWrite(resultPromise.then(f => this._updateCache(cacheConfig.key, f.value, f.headers, cache, cacheConfig)));
                 return update ? resultPromise.then(result => {return {...result, update: Promise.reject(new NoUpdateError("Cache disabled"))}}) : resultPromise;
             }
             // conditional request, if cache is STALE
@@ -88,28 +134,37 @@ export class CachingClient implements FetchClientCaching {
                     SimpleFetchClient._applyHeader("Accept", "application/json", headers, false);
                 resultPromise = this._delegate.fetch(input, init2).then(async resp => {
                     if (resp.status === 304)  { // unchanged  // TODO update cache (new API method required?)
+                        this._emitCache(input, init, cacheConfig.key, "revalidated");
                         if (update)
                             throw new NoUpdateError("Cached value unchanged, no update required");
                         return cacheResult!;
                     }
                     // TODO perform proper json checks
                     const json = await resp.json();
-                    this._updateCache(cacheConfig.key, json, resp.headers, cache, cacheConfig).catch(() => undefined);
+                    this._trackWrite(this._updateCache(cacheConfig.key, json, resp.headers, cache, cacheConfig));
                     return {value: json, headers: resp.headers};
                 });
+                this._trackWrite(resultPromise);  // the cache write is only triggered once the response has been parsed
             } else { // final case: cache disabled or non-conditional request
                 resultPromise = this._delegate.fetchJson<T>(input, init2);
-                resultPromise.then(f => this._updateCache(cacheConfig.key, f.value, f.headers, cache, cacheConfig)).catch(() => undefined);
+                this._trackWrite(resultPromise.then(f => this._updateCache(cacheConfig.key, f.value, f.headers, cache, cacheConfig)));
             }
             if ((cacheState as StaleCacheOptions).staleWhileRevalidate) {
+                this._emitCache(input, init, cacheConfig.key, "stale");
                 return update ? {...cacheResult!, update: resultPromise } : cacheResult!;
             }
+            resultPromise = resultPromise.then(result => {
+                if (result !== cacheResult)  // otherwise revalidated
+                    this._emitCache(input, init, cacheConfig.key, "miss");
+                return result;
+            });
             if ((cacheState as StaleCacheOptions).staleIfError) {
                 // https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Cache-Control#response_directives => stale-if-error
                 resultPromise = resultPromise.catch(e => {
-                    if ((e instanceof HttpError && (e.details.cause === "responseStatus" && e.details.status >= 500)) || isNetworkError(e))
-                        return update ?  {...cacheResult!, update: Promise.reject(new NoUpdateError("Request failed, no update available.")) } : cacheResult!;
-                    throw e;
+                    if (!CachingClient._isServerFailure(e))
+                        throw e;
+                    this._emitCache(input, init, cacheConfig.key, "stale");
+                    return update ?  {...cacheResult!, update: Promise.reject(new NoUpdateError("Request failed, no update available.")) } : cacheResult!;
                 });
             }
             return resultPromise;
@@ -117,16 +172,20 @@ export class CachingClient implements FetchClientCaching {
         else if (cacheConfig.mode === "fetchFirst") {
             try {
                 const resultPromise: Promise<{value: T, headers: Headers}> = this._delegate.fetchJson<T>(input, init2);
-                resultPromise.then(f => this._updateCache(cacheConfig.key, f.value, f.headers, cache, cacheConfig)).catch(() => undefined);
-                return await resultPromise;
+                this._trackWrite(resultPromise.then(f => this._updateCache(cacheConfig.key, f.value, f.headers, cache, cacheConfig)));
+                const result = await resultPromise;
+                this._emitCache(input, init, cacheConfig.key, "miss");
+                return result;
             } catch (e) {
                 try {
-                    const cacheResult = await cache.get(cacheConfig.key, cacheReqOptions);
+                    const cacheResult = await this._cacheGet(cache, cacheConfig.key, cacheReqOptions, table, init);
                     if (cacheResult) {
                         const cacheState: CacheState = CachingClient._cacheState(cacheResult!,
                             {defaultCacheControl: cacheConfig?.defaultCacheControl, forcedCacheControl: cacheConfig?.forcedCacheControl});
-                        if (cacheState.state === CacheStateCore.FRESH || (cacheState as StaleCacheOptions).staleIfError)
+                        if (cacheState.state === CacheStateCore.FRESH || (cacheState as StaleCacheOptions).staleIfError) {
+                            this._emitCache(input, init, cacheConfig.key, cacheState.state === CacheStateCore.FRESH ? "hit" : "stale");
                             return cacheResult;
+                        }
                     }
                 } catch (_) {
                 }     
@@ -137,7 +196,7 @@ export class CachingClient implements FetchClientCaching {
             if (fetchAbort) {
                 init2.signal = fetchAbort.signal
             }
-            const cacheResult: Promise<CachedObject<T>&CacheState|undefined> = cache.get(cacheConfig.key, cacheReqOptions).then(cached => {
+            const cacheResult: Promise<CachedObject<T>&CacheState|undefined> = this._cacheGet(cache, cacheConfig.key, cacheReqOptions, table, init).then(cached => {
                 if (!cached)
                     return cached;
                 return {...cached, ...CachingClient._cacheState(cached, {defaultCacheControl: cacheConfig?.defaultCacheControl, forcedCacheControl: cacheConfig?.forcedCacheControl})};
@@ -145,7 +204,7 @@ export class CachingClient implements FetchClientCaching {
             const fetchResult: Promise<{value: T, headers: Headers}> = this._delegate.fetchJson<T>(input, init2);
             const firstResult: Promise<{value: T, headers: Headers}|undefined> = Promise.race([cacheResult, fetchResult]);
             // FIXME only update cache if changed?
-            fetchResult.then(f => this._updateCache(cacheConfig.key, f.value, f.headers, cache, cacheConfig)).catch(() => undefined);
+            this._trackWrite(fetchResult.then(f => this._updateCache(cacheConfig.key, f.value, f.headers, cache, cacheConfig)));
             fetchResult.then(() => cacheAbort.abort(new Error("Fetch completed"))).catch(() => undefined);
             // @ts-ignore 
             return firstResult.catch(async _ => {
@@ -173,19 +232,26 @@ export class CachingClient implements FetchClientCaching {
                             // evaluate staleness
                             const cacheState = r as any as CacheState;
                             staleWhileRevalidate = (cacheState as StaleCacheOptions).staleWhileRevalidate!;
+                            if (cacheState.state === CacheStateCore.FRESH || staleWhileRevalidate)
+                                this._emitCache(input, init, cacheConfig.key, cacheState.state === CacheStateCore.FRESH ? "hit" : "stale");
                             if (cacheState.state === CacheStateCore.STALE && !staleWhileRevalidate) {
                                 const cacheUsableOnError = (cacheState as StaleCacheOptions).staleIfError;
-                                const base = cacheUsableOnError ? fetchResult.catch(e => {
-                                    if (e instanceof HttpError && (e.details.cause === "responseStatus" && e.details.status >= 500))
-                                        return cacheResult!;
-                                    if (isNetworkError(e))
-                                        return cacheResult!;
-                                    throw e;
-                                }) : fetchResult;
+                                const fetched = fetchResult.then(f => {
+                                    this._emitCache(input, init, cacheConfig.key, "miss");
+                                    return f;
+                                });
+                                const base = cacheUsableOnError ? fetched.catch(e => {
+                                    if (!CachingClient._isServerFailure(e))
+                                        throw e;
+                                    this._emitCache(input, init, cacheConfig.key, "stale");
+                                    return cacheResult!;
+                                }) : fetched;
                                 return !update ? base :
                                     base.then(res => {return {value: res, headers: res!.headers, update: new NoUpdateError("Cache stale, no update")};});
 
                             }
+                        } else {
+                            this._emitCache(input, init, cacheConfig.key, "miss");
                         }
 
                         if (!update) {
@@ -225,6 +291,7 @@ export class CachingClient implements FetchClientCaching {
                         };
                     }
                     // case 2: the cache result returned undefined => provide only the fetched result and update the cache
+                    fetchResult.then(() => this._emitCache(input, init, cacheConfig.key, "miss"), () => undefined);
                     return !update ? fetchResult : fetchResult.then(f => {
                         return {
                             value: f.value,
@@ -240,15 +307,27 @@ export class CachingClient implements FetchClientCaching {
         
     }
     
-    async close(options?: { timeout?: Milliseconds; }): Promise<unknown> {
-        await this._delegate.close(options);
+    /**
+     * Closes the underlying client, waits for pending cache writes and then closes the caches, which persists their state.
+     */
+    async close(options?: { timeout?: Milliseconds; }): Promise<CloseResult> {
+        const result: CloseResult = await this._delegate.close(options);
+        // a settled write may have triggered another one
+        while (this.#pendingWrites.size > 0)
+            await Promise.allSettled(Array.from(this.#pendingWrites));
         const tableCaches: Array<Promise<unknown>> = [];
         for (const tablesMap of this.#caches.values()) {
             for (const table of tablesMap.values()) {
                 tableCaches.push(table.then(t => t.close()));
             }
         }
-        return await Promise.all(tableCaches);
+        await Promise.allSettled(tableCaches);
+        return result;
+    }
+
+    private _trackWrite(write: Promise<unknown>) {
+        this.#pendingWrites.add(write);
+        write.finally(() => this.#pendingWrites.delete(write)).catch(() => undefined);
     }
 
     private async _getAvailableCache<T>(cacheIds: ReadonlyArray<string>, table: string): Promise<ObjectCache<T, any>|undefined> {
@@ -257,7 +336,9 @@ export class CachingClient implements FetchClientCaching {
                 const cache = await this._getCache<T>(id, table);
                 if (cache?.available())
                     return cache;
-            } catch (_) {}
+            } catch (e) {
+                this.#logger.warn("Cache not available", {cacheId: id, table: table, error: e});
+            }
         }
     }
 
@@ -355,7 +436,7 @@ export class CachingClient implements FetchClientCaching {
         if (cacheState.state === CacheStateCore.DISABLED)
             return Promise.resolve(false);
         return cache.set(key, value, headers, cacheControl)?.then(() => true).catch(e => {
-            console.error("Failed to write object to cache for key", key, e);
+            this.#logger.error("Failed to write object to cache", {cacheId: cache.cacheId(), table: cache.tableId(), key: key, error: e});
             return false;
         });
     }
@@ -376,6 +457,80 @@ export class CachingClient implements FetchClientCaching {
     abortAll(reason?: any): void {
         this._delegate.abortAll(reason);
     }
+    circuitState(key?: string): CircuitBreakerState|undefined {
+        return this._delegate.circuitState(key);
+    }
+    isolateCircuit(key?: string): boolean {
+        return this._delegate.isolateCircuit(key);
+    }
+    resetCircuit(key?: string): boolean {
+        return this._delegate.resetCircuit(key);
+    }
+    concurrency(): ConcurrencyState|undefined {
+        return this._delegate.concurrency();
+    }
+    outbox(): Outbox|undefined {
+        return this._delegate.outbox();
+    }
+    connectivity(): ConnectivityMonitor|undefined {
+        return this._delegate.connectivity();
+    }
+    on<E extends FetchClientEventType>(event: E, listener: (event: FetchClientEvents[E]) => void): () => void {
+        if (event === "cache") {  // the only event emitted by this client itself
+            const cacheListener = listener as (event: CacheEvent) => void;
+            this.#cacheListeners.add(cacheListener);
+            return () => this.#cacheListeners.delete(cacheListener);
+        }
+        return this._delegate.on(event, listener);
+    }
+
+    /**
+     * Looks up a cache entry, in a span of its own if tracing is enabled
+     */
+    private async _cacheGet<T>(cache: ObjectCache<T, any>, key: string, options: CacheRequestOptions, table: string, 
+            init: RequestInit&TraceContextOption): Promise<CachedObject<T>|undefined> {
+        const span: Span|undefined = init[TRACE_CONTEXT] ? this.#tracer?.startCacheLookup(init[TRACE_CONTEXT], key, table) : undefined;
+        if (!span)
+            return cache.get(key, options).catch(e => this._lookupFailed(cache, key, e));
+        try {
+            const result = await cache.get(key, options);
+            RequestTracer.setAttribute(span, "fetch_client.cache.found", !!result);
+            RequestTracer.end(span);
+            return result;
+        } catch (e) {
+            RequestTracer.end(span, undefined, e);
+            return this._lookupFailed(cache, key, e);
+        }
+    }
+
+    // failed lookups are usually followed by a request, and aborted ones are expected in race mode, hence debug only
+    private _lookupFailed(cache: ObjectCache<any, any>, key: string, error: unknown): never {
+        this.#logger.debug("Cache lookup failed", {cacheId: cache.cacheId(), table: cache.tableId(), key: key, error: error});
+        throw error;
+    }
+
+    private _emitCache(input: RequestInfo | URL, init: RequestInit&TraceContextOption|undefined, key: string, result: CacheEvent["result"]) {
+        RequestTracer.setAttribute(init?.[TRACE_CONTEXT], "fetch_client.cache.result", result);
+        if (this.#cacheListeners.size === 0 && !this.#logger.enabled("debug"))
+            return;
+        const event: CacheEvent = {endpoint: SimpleFetchClient._endpointForInput(input), method: SimpleFetchClient._methodForRequest(input, init), 
+            key: key, result: result};
+        this.#logger.debug("Cache " + result, {...event});
+        for (const listener of this.#cacheListeners) {
+            try {
+                listener(event);
+            } catch (e) {  // listeners must not interfere with request processing
+                this.#logger.warn("Event listener failed", {event: "cache", error: e});
+            }
+        }
+    }
+
+    /**
+     * Server errors and network errors allow for falling back to a stale cache entry (stale-if-error)
+     */
+    private static _isServerFailure(e: unknown): boolean {
+        return (e instanceof HttpError && (e.details.cause === "responseStatus" && e.details.status >= 500)) || e instanceof NetworkError;
+    }
 
     // FIXME code copied from SimpleClient
     private static _derivedSignalController(signal?: AbortSignal): AbortController {
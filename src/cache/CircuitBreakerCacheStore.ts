@@ -0,0 +1,37 @@
+import { ObjectCache } from "../cache.js";
+import { CacheConfiguration, CircuitBreakerStore } from "../client.js";
+import { factoryLoaders } from "./CachingClient.js";
+
+/**
+ * Persists circuit breaker states in a table of one of the cache providers
+ */
+export class CircuitBreakerCacheStore implements CircuitBreakerStore {
+
+    static readonly #KEY_PREFIX = "breaker:";
+    readonly #cache: Promise<ObjectCache<unknown, any>>;
+
+    constructor(config: CacheConfiguration, table: string) {
+        if (!(config.id in factoryLoaders))
+            throw new Error("Unknown cache provider " + config.id);
+        this.#cache = factoryLoaders[config.id](config).then(factory => factory.create<unknown>(table));
+    }
+
+    async load(): Promise<Record<string, unknown>> {
+        const cache = await this.#cache;
+        const result: Record<string, unknown> = {};
+        for (const key of await cache.allKeys()) {
+            if (!key.startsWith(CircuitBreakerCacheStore.#KEY_PREFIX))
+                continue;
+            const cached = await cache.get(key);
+            if (cached !== undefined)
+                result[key.substring(CircuitBreakerCacheStore.#KEY_PREFIX.length)] = cached.value;
+        }
+        return result;
+    }
+
+    async save(key: string, state: unknown): Promise<unknown> {
+        const cache = await this.#cache;
+        return cache.set(CircuitBreakerCacheStore.#KEY_PREFIX + key, state, new Headers());
+    }
+
+}
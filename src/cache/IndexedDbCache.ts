@@ -1,6 +1,6 @@
 import { createCacheIdb, LruCacheIndexedDB, LruIdbConfig } from "lru-cache-idb";
 import { CachedObject, CacheFactory, ObjectCache } from "../cache.js";
-import { CacheConfiguration, CacheControl, Milliseconds } from "../client.js";
+import { CacheConfiguration, CacheControl, Logger, Milliseconds } from "../client.js";
 import { CacheBase } from "./CacheBase.js";
 
 
@@ -54,6 +54,10 @@ interface IndexedDbCacheConfig {
      * @returns 
      */
     deepCopy?: (object: any) => any;
+    /**
+     * Receives failures to clear the database on start, see {@link clearOnStart}
+     */
+    logger?: Logger;
     
 
 }
@@ -135,7 +139,7 @@ export class IndexedDbCache<T> extends CacheBase<T, IndexedDbCacheConfig> {
         }
         this.#cache = createCacheIdb(cacheOptions);
         if (config.clearOnStart)
-            this.#cache.clear().catch(e => console.log("Failed to clear IndexedDB on start", e));
+            this.#cache.clear().catch(e => config.logger?.warn("Failed to clear IndexedDB on start", {cacheId: cacheId, table: table, error: e}));
         if (config.persistencePeriod! > 0 && globalThis.document) {
             this.#visibilityListener = () => {
                 if (globalThis.document.visibilityState === "hidden") {
@@ -0,0 +1,50 @@
+import { ObjectCache } from "../cache.js";
+import { CacheConfiguration, OutboxEntry, OutboxStore } from "../client.js";
+import { factoryLoaders } from "./CachingClient.js";
+
+/**
+ * Persists the outbox in a table of one of the cache providers. The maxItems setting does not apply to the table,
+ * since queued requests must not be evicted.
+ */
+export class OutboxCacheStore implements OutboxStore {
+
+    static readonly #KEY_PREFIX = "outbox:";
+    // providers which evict entries regardless of maxItems
+    static readonly #EVICTING_PROVIDERS: ReadonlyArray<string> = ["memorylru"];
+    readonly #cache: Promise<ObjectCache<OutboxEntry, any>>;
+
+    constructor(config: CacheConfiguration, table: string) {
+        if (!(config.id in factoryLoaders))
+            throw new Error("Unknown cache provider " + config.id);
+        if (OutboxCacheStore.#EVICTING_PROVIDERS.indexOf(config.id) >= 0)
+            throw new Error("Cache provider " + config.id + " cannot be used for the outbox, since it evicts entries");
+        // 0: no limit
+        this.#cache = factoryLoaders[config.id]({...config, maxItems: 0}).then(factory => factory.create<OutboxEntry>(table));
+        // failures are reported to the callers of the store methods
+        this.#cache.catch(() => undefined);
+    }
+
+    async load(): Promise<Array<OutboxEntry>> {
+        const cache = await this.#cache;
+        const result: Array<OutboxEntry> = [];
+        for (const key of await cache.allKeys()) {
+            if (!key.startsWith(OutboxCacheStore.#KEY_PREFIX))
+                continue;
+            const cached = await cache.get(key);
+            if (cached !== undefined)
+                result.push(cached.value);
+        }
+        return result;
+    }
+
+    async save(entry: OutboxEntry): Promise<unknown> {
+        const cache = await this.#cache;
+        return cache.set(OutboxCacheStore.#KEY_PREFIX + entry.id, entry, new Headers());
+    }
+
+    async delete(id: string): Promise<unknown> {
+        const cache = await this.#cache;
+        return cache.delete(OutboxCacheStore.#KEY_PREFIX + id);
+    }
+
+}
@@ -1,3 +1,4 @@
+import { ConsoleLogger } from "./logging/ClientLogger.js";
 import { SimpleFetchClient } from "./SimpleClient.js";
 
 export type Seconds = number;
@@ -12,8 +13,126 @@ export interface RequestOptions {
      * This can be disabled and the standard fetch behaviour restored, by setting this flag.
      */
     skipFailOnErrorCode?: boolean;
+    /**
+     * Overwrites the client-wide retry settings ({@link FetchClientOptions.retries}) for this request. 
+     * If a number is passed, only the maximum number of retries is overwritten, if a {@link RetryConfig} is passed
+     * its properties are merged with the client-wide settings. Set to 0 to disable retries for the request.
+     * Only applicable to a resilient client, see {@link FetchClientOptions.resilient}.
+     */
+    retries?: number|RetryConfig;
+    /**
+     * Overwrites the client-wide per-request timeout ({@link FetchClientOptions.timeoutRequest}). Set to 0 to disable the timeout.
+     * Only applicable to a resilient client, see {@link FetchClientOptions.resilient}.
+     */
+    timeoutRequest?: Milliseconds;
+    /**
+     * Overwrites the client-wide total timeout ({@link FetchClientOptions.timeoutTotal}). Set to 0 to disable the timeout.
+     * Only applicable to a resilient client, see {@link FetchClientOptions.resilient}.
+     */
+    timeoutTotal?: Milliseconds;
+    /**
+     * Set to false to bypass the client-wide circuit breaker for this request. Note that the request neither gets blocked by an
+     * open circuit breaker in this case, nor does its result count towards opening the breaker. 
+     * Only applicable to a resilient client, see {@link FetchClientOptions.resilient}.
+     */
+    circuitBreaker?: boolean;
+    /**
+     * Decides whether a failed attempt of this request is retried, replacing the built-in rules based on 
+     * status codes, methods, network errors and timeouts (see {@link RetryConfig}). The maximum number of retries 
+     * and the retry budget still apply.
+     * Only applicable to a resilient client with retries enabled, see {@link FetchClientOptions.retries}.
+     */
+    shouldRetry?: RetryPredicate;
+    /**
+     * Overwrites the client-wide hedging settings ({@link FetchClientOptions.hedging}) for this request. Set to false to disable hedging.
+     * Only applicable to a resilient client, see {@link FetchClientOptions.resilient}.
+     */
+    hedging?: HedgingConfig|false;
+    /**
+     * If the bulkhead is saturated (see {@link FetchClientOptions.parallelRequests}), queued requests are served by priority, 
+     * so that for instance user-facing calls overtake prefetches. Within the same priority, requests are served in FIFO order.
+     * The option is named queuePriority since the standard fetch option RequestInit.priority ("high", "low" or "auto") exists already; 
+     * the latter is a hint to the browser for scheduling the request on the network, after it has left the client, and it is 
+     * passed on to fetch unchanged. The two options are independent and can be combined.
+     * Only applicable to a resilient client with a bulkhead; otherwise, the option is ignored.
+     * Default: "normal"
+     */
+    queuePriority?: QueuePriority;
+    /**
+     * Overwrites the client-wide maximum queue wait ({@link ParallelRequestsConfig.maxQueueWait}) for this request.
+     * Only applicable to a resilient client, see {@link FetchClientOptions.resilient}.
+     */
+    maxQueueWait?: Milliseconds;
+    /**
+     * Set to true to send this request without the token of the client's {@link FetchClientOptions.auth} provider,
+     * e.g. for the token refresh request itself.
+     */
+    skipAuth?: boolean;
+    /**
+     * Set to false to exclude this request from coalescing, see {@link FetchClientOptions.coalescing}.
+     */
+    coalesce?: boolean;
+    /**
+     * Reports the progress of reading the response body. Note that the callback is only invoked while the body is consumed,
+     * e.g. via response.json().
+     */
+    onDownloadProgress?: (progress: TransferProgress) => void;
+    /**
+     * Reports the progress of sending the request body passed in the request options. Progress is reported while the body is sent
+     * only if the request body can be streamed, which is currently supported in Chromium-based browsers and NodeJS; in browsers, 
+     * the server must support HTTP/2 or above. Since a stream cannot be sent twice, this also requires that the request is 
+     * neither retried nor hedged. Otherwise, the buffered body is sent, and progress is reported only when the request starts
+     * and when the response arrives, with the size of the body as total.
+     */
+    onUploadProgress?: (progress: TransferProgress) => void;
+    /**
+     * Set to false to prevent this request from being queued in the outbox on a network error, see {@link FetchClientOptions.outbox}.
+     */
+    outbox?: boolean;
+}
+
+/**
+ * Progress of an upload or download, see {@link RequestOptions.onDownloadProgress} and {@link RequestOptions.onUploadProgress}.
+ * Progress starts from zero for every attempt.
+ */
+export interface TransferProgress {
+    /**
+     * Bytes transferred
+     */
+    loaded: number;
+    /**
+     * Total bytes, if known. For downloads, this is the Content-Length header value, which refers to the encoded body.
+     */
+    total?: number;
+    /**
+     * Average transfer rate since the start of the transfer, in bytes per second
+     */
+    rate: number;
+    attempt: number;
+}
+
+export type QueuePriority = "critical"|"normal"|"background";
+
+/**
+ * The request a {@link RetryPredicate} is evaluated for.
+ */
+export interface RetryRequestInfo {
+    endpoint: string;
+    url: string;
+    method: string;
+    /**
+     * The Idempotency-Key header value sent with the request, if any, see {@link RetryConfig.idempotencyKey}.
+     */
+    idempotencyKey?: string;
 }
 
+/**
+ * Return true to retry the failed request, false to fail immediately. The attempt starts at 1 for the initial request.
+ * It is called for the final attempt as well; the request then fails with the error of the final attempt, and the errors of
+ * all attempts are available as {@link FetchClientError.attemptErrors}.
+ */
+export type RetryPredicate = (error: unknown, attempt: number, request: RetryRequestInfo) => boolean;
+
 /**
  * Options for JSON requests.
  */
@@ -146,11 +265,28 @@ export type HttpErrorCause = (ResponseErrorCause|ContentTypeErrorCause)&{
     headers: Headers;
 };
 
+/**
+ * Base class of all errors thrown by the fetch clients, except for aborted requests, which fail 
+ * with the abort reason like standard fetch. See {@link isFetchClientError}.
+ */
+export abstract class FetchClientError extends Error {
+
+    abstract readonly kind: keyof FetchClientErrors;
+    /**
+     * The errors of all failed attempts, in order, if the request has been retried. If the last attempt failed, 
+     * its error is this error itself, e.g. the HttpError of the last retry.
+     */
+    attemptErrors?: ReadonlyArray<unknown>;
+
+}
+
 /**
  * This error is thrown if the server responds with a status code >= 400, and the
  * {@link RequestOptions.skipFailOnErrorCode} flag is not set.
  */
-export class HttpError extends Error {
+export class HttpError extends FetchClientError {
+
+    readonly kind = "http";
 
     constructor(message: string, readonly details: HttpErrorCause) {
         super(message, details);
@@ -158,6 +294,328 @@ export class HttpError extends Error {
 
 }
 
+/**
+ * This error is thrown if the server cannot be reached, e.g. because the device is offline or the 
+ * host name cannot be resolved. The original error thrown by fetch is available as cause.
+ */
+export class NetworkError extends FetchClientError {
+
+    readonly kind = "network";
+
+    constructor(message: string, options?: {cause?: unknown}) {
+        super(message, options);
+    }
+
+}
+
+/**
+ * This error is thrown if a request runs into the per-request timeout (scope "request", see {@link FetchClientOptions.timeoutRequest}),
+ * or into the total timeout including retries (scope "total", see {@link FetchClientOptions.timeoutTotal}).
+ */
+export class RequestTimeoutError extends FetchClientError {
+
+    readonly kind = "timeout";
+
+    constructor(message: string, readonly scope: "request"|"total", readonly timeout: Milliseconds) {
+        super(message);
+    }
+
+}
+
+/**
+ * This error is thrown if a request is rejected because the circuit breaker is open or isolated, see {@link FetchClientOptions.circuitBreaker}.
+ */
+export class CircuitOpenError extends FetchClientError {
+
+    readonly kind = "circuitOpen";
+
+    /**
+     * @param breaker the key of the breaker, only set for scoped circuit breakers, see {@link ScopedCircuitBreakerConfig}
+     */
+    constructor(message: string, readonly breaker?: string) {
+        super(message);
+    }
+
+}
+
+/**
+ * This error is thrown if the bulkhead is saturated and its queue is full, see {@link FetchClientOptions.parallelRequests}.
+ */
+export class QueueFullError extends FetchClientError {
+
+    readonly kind = "queueFull";
+
+    constructor(message: string) {
+        super(message);
+    }
+
+}
+
+/**
+ * This error is thrown if a request waits in the bulkhead queue for longer than the maximum queue wait,
+ * see {@link ParallelRequestsConfig.maxQueueWait} and {@link RequestOptions.maxQueueWait}.
+ */
+export class QueueTimeoutError extends FetchClientError {
+
+    readonly kind = "queueTimeout";
+
+    constructor(message: string, readonly waited: Milliseconds) {
+        super(message);
+    }
+
+}
+
+/**
+ * This error is thrown if a failed request would have been retried, but the retry budget of the client 
+ * is exhausted, see {@link FetchClientOptions.retryBudget}. The original error is available as cause.
+ */
+export class RetryBudgetExhaustedError extends FetchClientError {
+
+    readonly kind = "retryBudgetExhausted";
+
+    constructor(message: string, options?: {cause?: unknown}) {
+        super(message, options);
+    }
+
+}
+
+/**
+ * This error is thrown if a request failed due to a network error or because the client is offline, and has been queued in the outbox for later replay,
+ * see {@link FetchClientOptions.outbox}. The original error is available as cause.
+ */
+export class QueuedForReplayError extends FetchClientError {
+
+    readonly kind = "queuedForReplay";
+
+    constructor(message: string, readonly entry: OutboxEntry, options?: {cause?: unknown}) {
+        super(message, options);
+    }
+
+}
+
+/**
+ * This error is thrown if a request is not sent because the client is offline, see {@link FetchClientOptions.connectivity}.
+ */
+export class OfflineError extends FetchClientError {
+
+    readonly kind = "offline";
+
+    /**
+     * @param waited the time the request was held waiting for the connection to return; 0 if it failed immediately
+     */
+    constructor(message: string, readonly waited: Milliseconds) {
+        super(message);
+    }
+
+}
+
+/**
+ * This error is thrown for requests sent after the client has been closed. It is also the abort reason for requests aborted 
+ * by {@link FetchClient.close}, and the error for requests rejected from the bulkhead queue on close.
+ */
+export class ClientClosedError extends FetchClientError {
+
+    readonly kind = "closed";
+
+    constructor(message: string) {
+        super(message);
+    }
+
+}
+
+/**
+ * Maps the {@link FetchClientError.kind} to the error class
+ */
+export interface FetchClientErrors {
+    http: HttpError;
+    network: NetworkError;
+    timeout: RequestTimeoutError;
+    circuitOpen: CircuitOpenError;
+    queueFull: QueueFullError;
+    queueTimeout: QueueTimeoutError;
+    retryBudgetExhausted: RetryBudgetExhaustedError;
+    queuedForReplay: QueuedForReplayError;
+    offline: OfflineError;
+    closed: ClientClosedError;
+}
+
+/**
+ * Type guard for errors thrown by the fetch clients, e.g. <code>isFetchClientError(e, "timeout") && e.scope === "total"</code>.
+ * @param kind if not specified, any error thrown by the clients matches
+ */
+export function isFetchClientError<K extends keyof FetchClientErrors = keyof FetchClientErrors>(error: unknown, kind?: K): error is FetchClientErrors[K] {
+    return error instanceof FetchClientError && (kind === undefined || error.kind === kind);
+}
+
+/**
+ * Properties shared by all events relating to a specific request attempt. 
+ */
+export interface RequestEventBase {
+    endpoint: string;
+    method: string;
+    /**
+     * Starts at 1 for the initial request, incremented by one for every retry.
+     */
+    attempt: number;
+}
+
+/**
+ * Emitted before a request is sent to the server.
+ */
+export interface RequestEvent extends RequestEventBase {}
+
+/**
+ * Emitted when a response has been received from the server, irrespective of its status code.
+ */
+export interface ResponseEvent extends RequestEventBase {
+    status: number;
+    /**
+     * Duration of the attempt
+     */
+    duration: Milliseconds;
+}
+
+/**
+ * Emitted when a failed request is going to be retried. The attempt number refers to the
+ * upcoming attempt.
+ */
+export interface RetryEvent extends RequestEventBase {
+    delay: Milliseconds;
+    error: unknown;
+}
+
+/**
+ * Emitted when a failed request is not retried because the retry budget is exhausted, see {@link FetchClientOptions.retryBudget}.
+ */
+export interface RetryBudgetExhaustedEvent extends RequestEventBase {
+    error: unknown;
+}
+
+/**
+ * Emitted when a hedged request is sent, because the original request did not respond within the hedging delay,
+ * see {@link FetchClientOptions.hedging}. The hedged request carries the same attempt number as the original one.
+ */
+export interface HedgeEvent extends RequestEventBase {
+    delay: Milliseconds;
+}
+
+/**
+ * Emitted when a request had to wait for the client-side rate limiter, see {@link FetchClientOptions.rateLimit}.
+ */
+export interface RateLimitedEvent extends RequestEventBase {
+    /**
+     * The time the request was queued.
+     */
+    waited: Milliseconds;
+    /**
+     * The key of the rate limiter bucket, e.g. the origin.
+     */
+    key: string;
+}
+
+/**
+ * Emitted when a request runs into the per-request timeout (scope "request", see {@link FetchClientOptions.timeoutRequest}),
+ * or into the total timeout (scope "total", see {@link FetchClientOptions.timeoutTotal}).
+ */
+export interface TimeoutEvent extends RequestEventBase {
+    scope: "request"|"total";
+    timeout: Milliseconds;
+    error: unknown;
+}
+
+/**
+ * Emitted when a request is rejected because the maximum number of parallel and queued requests is exceeded, 
+ * see {@link FetchClientOptions.parallelRequests}.
+ */
+export interface BulkheadRejectedEvent extends RequestEventBase {
+    error: unknown;
+}
+
+/**
+ * Emitted when a request had to wait in the bulkhead queue before being sent, see {@link FetchClientOptions.parallelRequests}.
+ */
+export interface BulkheadQueuedEvent extends RequestEventBase {
+    waited: Milliseconds;
+}
+
+/**
+ * Emitted when a request has settled, successfully or not, after all retries. The attempt number refers to the last attempt.
+ */
+export interface CompleteEvent extends RequestEventBase {
+    /**
+     * The status code of the final response, also if it has been converted into an {@link HttpError}. 
+     * Undefined if no response was received.
+     */
+    status?: number;
+    /**
+     * Undefined if the request succeeded
+     */
+    error?: unknown;
+    /**
+     * Duration of the request, including queueing, retries and delays between them
+     */
+    duration: Milliseconds;
+    /**
+     * Duration of the first attempt, until the response headers were received or the attempt failed. 
+     * Undefined if no attempt has been sent, e.g. because the circuit breaker was open.
+     */
+    firstAttempt?: Milliseconds;
+    /**
+     * Duration of the last attempt, see {@link firstAttempt}
+     */
+    lastAttempt?: Milliseconds;
+}
+
+/**
+ * Emitted by a caching client for requests with a cache key, see {@link FetchClientCaching.fetchJson}:
+ * <ul>
+ *   <li>hit: a fresh cached value has been served</li>
+ *   <li>stale: an expired cached value has been served, e.g. due to stale-while-revalidate, stale-if-error or while offline</li>
+ *   <li>revalidated: the server confirmed that the cached value is unchanged</li>
+ *   <li>miss: the value has been fetched from the server</li>
+ * </ul>
+ */
+export interface CacheEvent {
+    endpoint: string;
+    method: string;
+    key: string;
+    result: "hit"|"stale"|"revalidated"|"miss";
+}
+
+/**
+ * Emitted when the circuit breaker changes its state. If the state change was caused by a 
+ * specific request, its endpoint, method and attempt are reported, as well as the error in case of circuitOpen.
+ */
+export interface CircuitEvent extends Partial<RequestEventBase> {
+    /**
+     * The key of the circuit breaker, if a {@link ScopedCircuitBreakerConfig} is used. This is the origin, path prefix or custom key.
+     */
+    breaker?: string;
+    error?: unknown;
+}
+
+/**
+ * Maps event types to the event objects passed to listeners, see {@link FetchClient.on}.
+ */
+export interface FetchClientEvents {
+    request: RequestEvent;
+    response: ResponseEvent;
+    retry: RetryEvent;
+    retryBudgetExhausted: RetryBudgetExhaustedEvent;
+    hedge: HedgeEvent;
+    rateLimited: RateLimitedEvent;
+    timeout: TimeoutEvent;
+    bulkheadRejected: BulkheadRejectedEvent;
+    circuitOpen: CircuitEvent;
+    circuitHalfOpen: CircuitEvent;
+    circuitClose: CircuitEvent;
+    bulkheadQueued: BulkheadQueuedEvent;
+    complete: CompleteEvent;
+    cache: CacheEvent;
+}
+
+export type FetchClientEventType = keyof FetchClientEvents;
+
 /**
  * A fetch client with added resilience features.
  */
@@ -187,12 +645,73 @@ export interface FetchClient {
      */
     abortAll(reason?: any): void;
     /**
-     * Close the client. It will not be possible to send new requests afterwards.
+     * Close the client. It will not be possible to send new requests afterwards, they fail with a {@link ClientClosedError}. 
+     * Requests waiting in the bulkhead queue are rejected immediately, the ones in flight are awaited. Calling close again returns the result of the first call.
      * 
      * @param options if timeout is 0, all ongoing requests will be cancelled immediately. If timeout is > 0 and there are ongoing requests,
      * they will be cancelled after timeout milliseconds. If not specified, ongoing requests will be awaited for indefinitely before closing.
      */
-    close(options?: {timeout?: Milliseconds;}): Promise<unknown>;
+    close(options?: {timeout?: Milliseconds;}): Promise<CloseResult>;
+    /**
+     * Subscribe to lifecycle events of the client, such as retries, timeouts or circuit breaker state changes. 
+     * Note that the simple client, which is used if no resilience features are configured, only emits request, response and complete events,
+     * and that cache events are only emitted by a caching client.
+     * Exceptions thrown by listeners are ignored.
+     * @param event 
+     * @param listener 
+     * @returns a function that removes the listener again
+     */
+    on<E extends FetchClientEventType>(event: E, listener: (event: FetchClientEvents[E]) => void): () => void;
+    /**
+     * Retrieve the current state of the circuit breaker. Returns undefined if no circuit breaker is configured.
+     * @param key only relevant for scoped circuit breakers (see {@link ScopedCircuitBreakerConfig}), the origin, path prefix or custom key 
+     *      of the breaker. If not specified, the default breaker is addressed. 
+     */
+    circuitState(key?: string): CircuitBreakerState|undefined;
+    /**
+     * Manually open the circuit breaker, so that all requests it is responsible for fail immediately, until
+     * {@link resetCircuit} is called. 
+     * @param key only relevant for scoped circuit breakers, see {@link circuitState}.
+     * @returns false if no matching circuit breaker is configured
+     */
+    isolateCircuit(key?: string): boolean;
+    /**
+     * Close the circuit breaker, irrespective of its current state, including the isolated state (see {@link isolateCircuit}). 
+     * @param key only relevant for scoped circuit breakers, see {@link circuitState}.
+     * @returns false if no matching circuit breaker is configured
+     */
+    resetCircuit(key?: string): boolean;
+    /**
+     * Retrieve the current concurrency limit and the number of requests in flight and queued. 
+     * Returns undefined if no bulkhead is configured, see {@link FetchClientOptions.parallelRequests}.
+     */
+    concurrency(): ConcurrencyState|undefined;
+    /**
+     * Access the queue of failed mutations. Returns undefined if no outbox is configured, see {@link FetchClientOptions.outbox}.
+     */
+    outbox(): Outbox|undefined;
+    /**
+     * Access the connectivity monitor. Returns undefined if connectivity awareness is not enabled, see {@link FetchClientOptions.connectivity}.
+     */
+    connectivity(): ConnectivityMonitor|undefined;
+}
+
+/**
+ * What happened to the requests in flight when the client was closed, see {@link FetchClient.close}.
+ */
+export interface CloseResult {
+    /**
+     * Requests that settled, successfully or not, within the close timeout
+     */
+    completed: number;
+    /**
+     * Requests aborted because they did not settle within the close timeout
+     */
+    aborted: number;
+    /**
+     * Requests waiting in the bulkhead queue, which were rejected without being sent
+     */
+    queued: number;
 }
 
 /**
@@ -254,10 +773,17 @@ export interface RetryConfig {
     //httpMethods?: Array<string>; 
     /**
      * Retry POST requests? Note that in general POSTs are not expected to be idempotent and therefore
-     * not safe to retry.
-     * Default: false; TODO: allow for a callback too?
+     * not safe to retry. See {@link idempotencyKey} for a safer alternative, and {@link RequestOptions.shouldRetry} for custom rules.
+     * Default: false
+     */
+    retryPosts?: boolean;
+    /**
+     * Send an Idempotency-Key header with POST and PATCH requests, see https://datatracker.ietf.org/doc/draft-ietf-httpapi-idempotency-key-header/.
+     * The key is generated once per call and reused for all retries; a key set explicitly by the caller is kept. 
+     * POST and PATCH requests carrying such a key become retryable, other than those without.
+     * Default: false
      */
-    retryPosts?: boolean;  // TODO also PATCH
+    idempotencyKey?: boolean;
     /**
      * Default: [408, 420, 429, 500, 502, 503, 504]
      */
@@ -272,15 +798,114 @@ export interface RetryConfig {
      */
     exponent?: number;
     /**
-     * The initial, first delay of the backoff, in milliseconds.
+     * The initial, first delay of the backoff, in milliseconds. For the "constant" backoff, this is the delay between all attempts.
      * Defaults to 128ms.
      */
     initialDelay?: Milliseconds;
+    /**
+     * The backoff strategy. The exponential strategies take into account {@link initialDelay}, {@link exponent} and {@link maxDelay}.
+     * Default: "decorrelatedJitter"
+     */
+    backoff?: BackoffStrategy;
+    /**
+     * Handling of Retry-After and similar headers.
+     */
+    retryAfter?: RetryAfterConfig;
 
 }
 
+/**
+ * Built-in backoff strategies or a custom function, see {@link RetryConfig.backoff}:
+ *  - "exponential": exponentially growing delays without jitter
+ *  - "fullJitter": a random delay between 0 and the exponentially growing delay
+ *  - "decorrelatedJitter": exponentially growing delays with decorrelated jitter, see https://github.com/Polly-Contrib/Polly.Contrib.WaitAndRetry#new-jitter-recommendation
+ *  - "constant": always wait {@link RetryConfig.initialDelay}
+ */
+export type BackoffStrategy = "exponential"|"fullJitter"|"decorrelatedJitter"|"constant"|BackoffFunction;
+
+/**
+ * A custom backoff, returning the delay before the next retry in milliseconds.
+ */
+export type BackoffFunction = (context: BackoffContext) => Milliseconds;
+
+export interface BackoffContext {
+    /**
+     * The retry about to be scheduled, starting at 1 for the first retry.
+     */
+    retry: number;
+    /**
+     * The error of the failed attempt.
+     */
+    error: unknown;
+    /**
+     * The delay before the previous retry, undefined for the first retry.
+     */
+    previousDelay?: Milliseconds;
+}
+
+/**
+ * If a response with one of the {@link statusCodes} carries one of the {@link headers}, the next retry is delayed accordingly.
+ * The wait is shortened if it would run into the total timeout, see {@link FetchClientOptions.timeoutTotal}.
+ */
+export interface RetryAfterConfig {
+    /**
+     * Default: [429, 503]
+     */
+    statusCodes?: Array<number>;
+    /**
+     * Headers are evaluated in the given order, the first one present wins. Values can be either 
+     * a number of seconds or an HTTP date.
+     * Default: ["Retry-After", "RateLimit-Reset", "X-RateLimit-Reset", "X-Rate-Limit-Reset"]
+     */
+    headers?: Array<string>;
+    /**
+     * If the server asks us to wait longer than this, the request fails immediately instead of being retried.
+     * Default: undefined, i.e. no limit
+     */
+    maxDelay?: Milliseconds;
+    /**
+     * If waiting for the Retry-After delay would exceed the total timeout, the wait is shortened so that
+     * this time span remains for the final attempt.
+     * Default: 5000 (5s)
+     */
+    safetyMargin?: Milliseconds;
+}
+
+/**
+ * Configuration for a circuit breaker that opens when the ratio of failed requests within a sliding time window exceeds a threshold.
+ */
+export interface FailureRateConfig {
+    /**
+     * Ratio of failed requests, between 0 and 1 (exclusive), above which the circuit breaker opens.
+     */
+    threshold: number;
+    /**
+     * Duration of the sliding window over which requests are sampled.
+     */
+    duration: Milliseconds;
+    /**
+     * Minimum number of requests within the sliding window required to open the circuit breaker. 
+     * Avoids opening the breaker unnecessarily under low traffic.
+     * Default: 10
+     */
+    minimumThroughput?: number;
+}
+
+/**
+ * Circuit breaker configuration. Either {@link openAfterFailedAttempts} (consecutive mode) or {@link failureRate} 
+ * (failure rate/sampling mode) must be specified.
+ */
 export interface CircuitBreakerConfig {
-    openAfterFailedAttempts: number; 
+    /**
+     * Consecutive mode: open the circuit breaker after this number of consecutive failed requests.
+     */
+    openAfterFailedAttempts?: number; 
+    /**
+     * Failure rate mode: open the circuit breaker when the ratio of failed requests within a sliding time window exceeds a threshold.
+     * Suitable for high traffic scenarios, where a significant share of failed requests may never lead to a series of consecutive failures.
+     * Ignored if {@link openAfterFailedAttempts} is set.
+     */
+    failureRate?: FailureRateConfig;
     /**
      * How long to wait before sending a request again after the circuit breaker opened.
      */
@@ -310,13 +935,751 @@ export interface CircuitBreakerConfig {
 
 }
 
+/**
+ * Limits the number of retries relative to the number of requests, in order to avoid retry storms
+ * overloading a server that is already in trouble. Implemented as a token bucket: every request adds {@link ratio} tokens
+ * to the bucket, up to {@link maxTokens}, and every retry consumes one token. If less than one token is available, failed requests
+ * are not retried, but fail with a {@link RetryBudgetExhaustedError}.
+ */
+export interface RetryBudgetConfig {
+    /**
+     * Tokens added per request, i.e. the long-term ratio of retries to requests.
+     * Default: 0.2
+     */
+    ratio?: number;
+    /**
+     * Maximum number of tokens, and initial number of tokens. Determines the number of retries possible in a burst.
+     * Default: 10
+     */
+    maxTokens?: number;
+    /**
+     * A single budget shared by all requests of the client ("client"), or one per origin ("origin").
+     * Default: "client"
+     */
+    scope?: "client"|"origin";
+}
+
+/**
+ * Hedging reduces tail latencies: if no response has arrived after a delay, a second identical request is sent, 
+ * and whichever succeeds first wins; the other one is aborted. Hedged requests pass through the bulkhead and circuit breaker,
+ * and consume a token from the retry budget, if configured (if none is available, no hedged request is sent).
+ * Hedging only applies to safe methods (GET, HEAD, OPTIONS); unlike a retry, the hedged request runs in parallel to the original one,
+ * so hedging a mutation such as a PUT or DELETE would send it to the server twice at the same time.
+ * At least one of {@link delay} and {@link percentile} must be set.
+ */
+export interface HedgingConfig {
+    /**
+     * Delay after which the hedged request is sent. If {@link percentile} is set as well, this is only
+     * used until enough latencies have been recorded.
+     */
+    delay?: Milliseconds;
+    /**
+     * Send the hedged request after the given percentile of recent request latencies of the client has passed, 
+     * e.g. 95 for the 95th percentile. Value must be between 0 and 100.
+     */
+    percentile?: number;
+}
+
+/**
+ * Concurrent identical requests share a single underlying request, see {@link FetchClientOptions.coalescing}.
+ * Requests are identical if they agree in method, url and the values of the selected headers; other request options,
+ * such as timeouts, are taken from the request that started the shared request.
+ */
+export interface CoalescingConfig {
+    /**
+     * Default: ["GET", "HEAD"]
+     */
+    methods?: Array<string>;
+    /**
+     * Headers whose values distinguish requests.
+     * Default: ["Accept", "Authorization"]
+     */
+    headers?: Array<string>;
+}
+
+/**
+ * Client-side rate limiting with a token bucket per origin, endpoint or custom key. Requests exceeding the limit
+ * are queued until a token becomes available, or until they are aborted or run into the total timeout.
+ * In adaptive mode, the buckets additionally follow the quota reported by the server via the RateLimit-Limit, 
+ * RateLimit-Remaining and RateLimit-Reset response headers (see https://datatracker.ietf.org/doc/draft-ietf-httpapi-ratelimit-headers/), 
+ * so that requests are delayed before the quota runs out.
+ */
+export interface RateLimitConfig {
+    /**
+     * The number of requests allowed per {@link interval}, and the maximum burst size. If not set, requests are only limited 
+     * by the quota reported by the server, see {@link adaptive}.
+     */
+    limit?: number;
+    /**
+     * Default: 1000 (1s)
+     */
+    interval?: Milliseconds;
+    /**
+     * A bucket per origin, per endpoint (origin plus path, without query), or per key returned by a custom function.
+     * If the function returns undefined, the request is not rate limited.
+     * Default: "origin"
+     */
+    scope?: "origin"|"endpoint"|((url: string, method: string) => string|undefined);
+    /**
+     * Adapt to the RateLimit headers reported by the server.
+     * Default: true
+     */
+    adaptive?: boolean;
+}
+
+/**
+ * The current state of a circuit breaker, see {@link FetchClient.circuitState}
+ */
+export interface CircuitBreakerState {
+    /**
+     * "closed": normal operation; "open": requests fail immediately due to previous failures; "halfOpen": a test request is being 
+     * sent to the server; "isolated": opened manually via {@link FetchClient.isolateCircuit}.
+     */
+    state: "closed"|"open"|"halfOpen"|"isolated";
+    /**
+     * Only set in the open state: the time after which the breaker will let a request pass again.
+     */
+    nextAttempt?: Date;
+}
+
+/**
+ * A store for persisting the circuit breaker state, e.g. across page reloads. Implementations should be fault tolerant, but
+ * errors are ignored by the client anyway. See `createCircuitBreakerStore` in the `resilient-fetch-client/cache` module for an implementation based on the cache providers.
+ */
+export interface CircuitBreakerStore {
+    /**
+     * Load all persisted states. Keys are circuit breaker keys, see {@link ScopedCircuitBreakerConfig}; in case of a single
+     * client-wide breaker the key is an empty string. Values are opaque.
+     */
+    load(): Promise<Record<string, unknown>|undefined>;
+    /**
+     * Persist the state of a single breaker. Called whenever the state of the breaker changes.
+     */
+    save(key: string, state: unknown): Promise<unknown>;
+}
+
+/**
+ * A failed mutation queued for replay, see {@link OutboxConfig}.
+ */
+export interface OutboxEntry {
+    /**
+     * Unique id, the lexicographic order of ids corresponds to the order in which entries were queued
+     */
+    id: string;
+    method: string;
+    /**
+     * The url as passed to fetch, i.e. relative to the base url of the client, if any
+     */
+    url: string;
+    /**
+     * The request headers, not including the default headers of the client
+     */
+    headers: Array<[string, string]>;
+    body?: ArrayBuffer;
+    /**
+     * Timestamp when the entry was queued
+     */
+    created: number;
+    /**
+     * Number of failed replays
+     */
+    replays: number;
+}
+
+/**
+ * Persists the outbox, see {@link OutboxConfig.store}. 
+ * See `createOutboxStore` in the `resilient-fetch-client/cache` module for an implementation based on the cache providers.
+ */
+export interface OutboxStore {
+    /**
+     * Load all entries; the order does not matter.
+     */
+    load(): Promise<Array<OutboxEntry>>;
+    /**
+     * Add or update an entry
+     */
+    save(entry: OutboxEntry): Promise<unknown>;
+    delete(id: string): Promise<unknown>;
+}
+
+/**
+ * Mutations failing due to a network error or an {@link OfflineError} are queued in the outbox, and replayed in order once connectivity returns,
+ * or on demand, see {@link Outbox.replay}. Replayed requests pass through all resilience features of the client. 
+ * Callers of the failed request receive a {@link QueuedForReplayError}.
+ * Requests whose body is a stream or which are passed as Request objects with a body cannot be queued.
+ */
+export interface OutboxConfig {
+    /**
+     * Default: an in-memory store, which does not survive page reloads
+     */
+    store?: OutboxStore;
+    /**
+     * Default: ["POST", "PUT", "PATCH", "DELETE"]
+     */
+    methods?: Array<string>;
+    /**
+     * Replay automatically when the browser, or the monitor if {@link FetchClientOptions.connectivity} is configured, reports that it is online again. 
+     * Default: true
+     */
+    replayOnline?: boolean;
+    /**
+     * Maximum number of replays of an entry failing with a server error or timeout, before giving up on it. Replays failing
+     * due to a network error do not count.
+     * Default: 5
+     */
+    maxReplays?: number;
+    /**
+     * Entries older than this are given up on instead of being replayed.
+     * Default: no limit
+     */
+    maxAge?: Milliseconds;
+    /**
+     * Called if a replay fails with status 409 (conflict) or 412 (precondition failed). Return true to keep the entry 
+     * for another replay, e.g. after modifying the server state, or false to discard it.
+     * Default: discard the entry
+     */
+    onConflict?: (entry: OutboxEntry, error: HttpError) => boolean|Promise<boolean>;
+    /**
+     * Called when an entry is discarded because it cannot be delivered, e.g. due to a client error status code
+     * or after {@link maxReplays}.
+     */
+    onGiveUp?: (entry: OutboxEntry, error: unknown) => void;
+}
+
+export interface OutboxReplayResult {
+    replayed: number;
+    discarded: number;
+    /**
+     * Number of entries left in the outbox; replay stops at the first entry that cannot be delivered yet, to preserve the order.
+     */
+    remaining: number;
+}
+
+/**
+ * The queue of failed mutations of a client, see {@link FetchClientOptions.outbox}.
+ */
+export interface Outbox {
+    /**
+     * The entries in the order they are replayed
+     */
+    entries(): Promise<Array<OutboxEntry>>;
+    /**
+     * Replay the queued requests in order. If a replay is already running, its result is returned.
+     */
+    replay(): Promise<OutboxReplayResult>;
+    /**
+     * Remove an entry without replaying it
+     */
+    discard(id: string): Promise<boolean>;
+}
+
+/**
+ * Reports whether the client is online. Custom implementations can be passed as {@link ConnectivityConfig.monitor}.
+ */
+export interface ConnectivityMonitor {
+    online(): boolean;
+    /**
+     * @param listener called with the new state whenever the client goes online or offline
+     * @returns a function that removes the listener again
+     */
+    subscribe(listener: (online: boolean) => void): () => void;
+    /**
+     * Called when the client is closed, if the monitor has been created by the client
+     */
+    close?(): void;
+}
+
+/**
+ * While the client is offline, requests either fail immediately with an {@link OfflineError}, or are held back until
+ * the connection returns. This applies to retries as well, so that the retry budget and the total timeout are not wasted on
+ * requests that cannot succeed.
+ */
+export interface ConnectivityConfig {
+    /**
+     * Default: if a {@link probe} is provided, a monitor calling the probe periodically. Otherwise, in browsers, a monitor based
+     * on <code>navigator.onLine</code> and the online/offline events; in other environments the client is always considered online.
+     */
+    monitor?: ConnectivityMonitor;
+    /**
+     * A check whether the network is available, e.g. a DNS lookup or a request to a health endpoint, for environments without
+     * online/offline events such as NodeJS. A rejected promise counts as offline.
+     */
+    probe?: () => boolean|Promise<boolean>;
+    /**
+     * Only relevant if {@link probe} is set.
+     * Default: 10_000 (10s)
+     */
+    probeInterval?: Milliseconds;
+    /**
+     * "fail": reject requests immediately, "wait": hold requests until the client is online again, at most for {@link maxWait}.
+     * Default: "fail"
+     */
+    whenOffline?: "fail"|"wait";
+    /**
+     * Only relevant if {@link whenOffline} is "wait".
+     * Default: 30_000 (30s)
+     */
+    maxWait?: Milliseconds;
+}
+
+/**
+ * A request sent by the client together with its outcome, see {@link RequestRecorder}.
+ */
+export interface RecordedExchange {
+    endpoint: string;
+    method: string;
+    url: string;
+    attempt: number;
+    /**
+     * The headers actually sent, including default headers and the ones added by middleware or the auth provider
+     */
+    requestHeaders: Headers;
+    /**
+     * Undefined if the request has no body, or if it is a stream
+     */
+    requestBody?: ArrayBuffer;
+    started: Date;
+    /**
+     * Time until the response headers were received, or the request failed
+     */
+    wait: Milliseconds;
+    /**
+     * A copy of the response, whose body has not been consumed yet. Undefined if the request failed.
+     */
+    response?: Response;
+    error?: unknown;
+}
+
+/**
+ * Receives every attempt sent by a client, including retries and hedged requests, see {@link FetchClientOptions.recorder}.
+ * A recorder producing HAR files is available via <code>createHarRecorder</code> in "resilient-fetch-client/har".
+ * Exceptions thrown by the recorder are ignored.
+ */
+export interface RequestRecorder {
+    record(exchange: RecordedExchange): void;
+}
+
+/**
+ * A counter sample of a {@link MetricFamily}.
+ */
+export interface CounterSample {
+    labels: Record<string, string>;
+    value: number;
+}
+
+/**
+ * A histogram sample of a {@link MetricFamily}. Bucket counts are cumulative, as in the OpenMetrics format, 
+ * and the last bucket has the upper bound Infinity.
+ */
+export interface HistogramSample {
+    labels: Record<string, string>;
+    buckets: Array<{le: number; count: number;}>;
+    count: number;
+    sum: number;
+}
+
+/**
+ * A metric with all its label combinations, named as in the OpenMetrics format, e.g. "fetch_client_request_duration_seconds".
+ * Durations are reported in seconds.
+ */
+export type MetricFamily = {name: string; help: string; type: "counter"; samples: Array<CounterSample>;}
+    |{name: string; help: string; type: "histogram"; samples: Array<HistogramSample>;};
+
+export interface MetricsSnapshot {
+    timestamp: Date;
+    metrics: Array<MetricFamily>;
+}
+
+/**
+ * Collects statistics about the requests of one or multiple clients, see {@link FetchClientOptions.metrics}.
+ * A registry is created by <code>createMetricsRegistry</code> in "resilient-fetch-client/metrics", which also provides
+ * a serializer for the OpenMetrics text format.
+ */
+export interface MetricsRegistry {
+    /**
+     * Start collecting metrics from the events of a client. Called by {@link createFetchClient}.
+     * @returns a function that stops the collection again
+     */
+    attach(client: FetchClient): () => void;
+    snapshot(): MetricsSnapshot;
+    /**
+     * Remove all values collected so far
+     */
+    reset(): void;
+}
+
+/**
+ * Identifies a span, as propagated in the W3C Trace Context headers traceparent and tracestate, 
+ * see https://www.w3.org/TR/trace-context/.
+ */
+export interface SpanContext {
+    /**
+     * 32 lowercase hex characters
+     */
+    traceId: string;
+    /**
+     * 16 lowercase hex characters
+     */
+    spanId: string;
+    /**
+     * Bit field, 1: sampled
+     */
+    traceFlags: number;
+    /**
+     * The value of the tracestate header
+     */
+    traceState?: string;
+}
+
+export type SpanAttributeValue = string|number|boolean;
+
+export interface SpanOptions {
+    kind: "client"|"internal";
+    /**
+     * If not set, a new trace is started
+     */
+    parent?: SpanContext;
+    attributes?: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * A span opened by a {@link Tracer}. The methods correspond to the OpenTelemetry Span API.
+ */
+export interface Span {
+    spanContext(): SpanContext;
+    setAttribute(key: string, value: SpanAttributeValue): void;
+    setStatus(status: {code: "ok"|"error"; message?: string;}): void;
+    recordException(error: unknown): void;
+    end(): void;
+}
+
+/**
+ * Creates spans, see {@link TracingConfig}. An adapter to an OpenTelemetry tracer is straightforward; 
+ * for tests, <code>createInMemoryTracer</code> in "resilient-fetch-client/tracing" records the spans in memory.
+ */
+export interface Tracer {
+    startSpan(name: string, options: SpanOptions): Span;
+}
+
+/**
+ * Tracing of requests, see {@link FetchClientOptions.tracing}. Every call to fetch or fetchJson opens a span, with a child span 
+ * of kind "client" for every attempt, and for every cache lookup of a caching client. Attributes follow the OpenTelemetry 
+ * semantic conventions for HTTP clients. Exceptions thrown by the tracer are ignored.
+ */
+export interface TracingConfig {
+    tracer: Tracer;
+    /**
+     * Send the traceparent and tracestate headers, identifying the span of the attempt, with every request.
+     * Default: true
+     */
+    propagate?: boolean;
+    /**
+     * Provides the parent of the request spans, e.g. the span of the incoming request being processed.
+     * A traceparent header set on the request takes precedence. 
+     * Default: requests without traceparent header start a new trace
+     */
+    parent?: () => SpanContext|undefined;
+}
+
+export type LogLevel = "debug"|"info"|"warn"|"error";
+
+/**
+ * Structured context of a log message. Fields that do not apply to a message are omitted.
+ */
+export interface LogFields {
+    endpoint?: string;
+    method?: string;
+    /**
+     * Starts at 1 for the initial request, see {@link RequestEventBase.attempt}
+     */
+    attempt?: number;
+    /**
+     * Id of the cache provider, e.g. "memory" or "indexeddb"
+     */
+    cacheId?: string;
+    table?: string;
+    /**
+     * The cache key
+     */
+    key?: string;
+    error?: unknown;
+    [field: string]: unknown;
+}
+
+/**
+ * Receives the log output of a client, see {@link FetchClientOptions.logger}. The methods are compatible with the console, 
+ * and with most logging libraries, such as pino or winston. For console output, see {@link createConsoleLogger}.
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+export interface LoggerConfig {
+    logger: Logger;
+    /**
+     * Messages below this level are dropped. "debug" logs every request and response, including the request headers.
+     * Default: "info"
+     */
+    level?: LogLevel|"silent";
+    /**
+     * Additional headers whose values are replaced by "[REDACTED]" in the log output, case-insensitive. 
+     * The headers "authorization", "proxy-authorization", "cookie" and "set-cookie" are always redacted, unless {@link redactDefaultHeaders} is false.
+     */
+    redactHeaders?: Array<string>;
+    /**
+     * Set to false to log the values of the headers "authorization", "proxy-authorization", "cookie" and "set-cookie", e.g. for debugging 
+     * in a development environment. 
+     * Default: true
+     */
+    redactDefaultHeaders?: boolean;
+}
+
+/**
+ * A fault injected by {@link FetchClientOptions.faults}:
+ * <ul>
+ *   <li>latency: delays the request, by <code>delay</code> plus a random share of <code>jitter</code> milliseconds. 
+ *       Unlike the other faults, it is combined with subsequent matching rules.</li>
+ *   <li>networkError: fails the request like an unreachable server, without sending it</li>
+ *   <li>status: responds with the status code, without sending the request; <code>retryAfter</code> (seconds) sets the Retry-After header</li>
+ *   <li>truncatedBody: delivers only the first <code>bytes</code> of the response body (default: half of it), and then fails 
+ *       like a dropped connection, unless <code>fail</code> is false, in which case the body simply ends</li>
+ *   <li>contentType: replaces the Content-Type header of the response, default: "text/html"</li>
+ * </ul>
+ */
+export type Fault = {type: "latency"; delay: Milliseconds; jitter?: Milliseconds;}
+    |{type: "networkError";}
+    |{type: "status"; status: number; retryAfter?: Seconds; body?: string;}
+    |{type: "truncatedBody"; bytes?: number; fail?: boolean;}
+    |{type: "contentType"; contentType?: string;};
+
+/**
+ * Selects the requests a fault is injected into. All conditions must match.
+ */
+export interface FaultRule {
+    fault: Fault;
+    /**
+     * A string matches if it is contained in the request url.
+     * Default: all urls
+     */
+    url?: string|RegExp;
+    /**
+     * Default: all methods
+     */
+    methods?: Array<string>;
+    /**
+     * Probability between 0 and 1 that the fault is injected into a matching request.
+     * Default: 1
+     */
+    probability?: number;
+    /**
+     * Scripted faults: the numbers of the matching requests to inject the fault into, starting at 1. For instance, [1, 2] 
+     * makes the first two matching requests fail. Note that retries count as separate requests.
+     * Default: all matching requests
+     */
+    requests?: Array<number>;
+}
+
+/**
+ * Injects faults into requests, for testing how an application deals with a slow or failing backend. 
+ * The faults are applied to the underlying fetch function, so they pass through all resilience features of the client.
+ */
+export interface FaultInjectionConfig {
+    /**
+     * Rules are evaluated in order; the first matching rule with a fault other than latency wins.
+     */
+    rules: Array<FaultRule>;
+    /**
+     * Seed for the random source deciding on probabilistic faults and jitter, so that a sequence of faults can be reproduced.
+     * Default: a random seed
+     */
+    seed?: number;
+}
+
+/**
+ * Configuration for multiple circuit breakers, each of which is responsible for a subset of the requests of a client,
+ * so that a single failing backend does not block requests to other ones. Breakers are created on first use and removed 
+ * again when they have been idle (and closed) for some time.
+ */
+export interface ScopedCircuitBreakerConfig {
+    /**
+     * Determines the circuit breaker responsible for a request:
+     * <ul>
+     *   <li>"origin": one breaker per origin (scheme, host and port) of the request url</li>
+     *   <li>"pathPrefix": one breaker per path prefix configured in {@link breakers}. The longest matching prefix wins. Requests not
+     *       matching any prefix share a common breaker configured by {@link default}, if present.</li>
+     *   <li>a function, returning the breaker key for a request url and method. If it returns undefined, the request is not subject to any circuit breaker.</li>
+     * </ul>
+     */
+    scope: "origin"|"pathPrefix"|((url: string, method: string) => string|undefined);
+    /**
+     * Configuration for breakers that do not have a dedicated entry in {@link breakers}. 
+     * If not set, only requests with a dedicated configuration are subject to a circuit breaker.
+     */
+    default?: CircuitBreakerConfig;
+    /**
+     * Dedicated configurations per breaker key, i.e. per origin, path prefix or custom key.
+     */
+    breakers?: Record<string, CircuitBreakerConfig>;
+    /**
+     * Breakers in the closed state that have not been used for this period are removed.
+     * Default: 300_000 (5 min)
+     */
+    idleTimeout?: Milliseconds;
+}
+
 export interface ParallelRequestsConfig {
+    /**
+     * The maximum number of requests in flight, or the initial limit in {@link adaptive} mode.
+     */
     maxParallelRequests: number; 
     maxQueuedRequests: number;
+    /**
+     * Requests queued for longer than this fail with a {@link QueueTimeoutError}. Can be overwritten per request, see {@link RequestOptions.maxQueueWait}.
+     * Default: undefined, i.e. requests wait until they are aborted or run into the total timeout.
+     */
+    maxQueueWait?: Milliseconds;
+    /**
+     * Adapt the concurrency limit at runtime to the observed latencies and errors.
+     */
+    adaptive?: AdaptiveConcurrencyConfig;
+}
+
+/**
+ * The concurrency limit is adapted after every completed request. Timeouts, network errors and the status codes
+ * 429, 503 and 504 count as overload signals and reduce the limit by the {@link backoffRatio}.
+ */
+export interface AdaptiveConcurrencyConfig {
+    /**
+     * - "aimd": additive increase, multiplicative decrease. The limit grows by one per successful request, 
+     *      and shrinks on overload signals or if a request takes longer than the {@link latencyThreshold}
+     * - "vegas": the queue at the server is estimated from the ratio of the minimum latency observed to the current one; the limit 
+     *      grows while the estimated queue is short and shrinks when it gets long
+     * Default: "aimd"
+     */
+    algorithm?: "aimd"|"vegas";
+    /**
+     * Default: 1
+     */
+    minLimit?: number;
+    /**
+     * Default: the larger one of 200 and {@link ParallelRequestsConfig.maxParallelRequests}
+     */
+    maxLimit?: number;
+    /**
+     * Factor applied to the limit on overload, between 0 and 1.
+     * Default: 0.9
+     */
+    backoffRatio?: number;
+    /**
+     * Only relevant for the "aimd" algorithm: requests taking longer than this reduce the limit.
+     * Default: undefined, i.e. only errors reduce the limit
+     */
+    latencyThreshold?: Milliseconds;
+}
+
+export interface ConcurrencyState {
+    /**
+     * The current concurrency limit
+     */
+    limit: number;
+    inFlight: number;
+    queued: number;
 }
 
 export type MethodName = "GET"|"POST"|"PUT"|"HEAD"|"OPTIONS"|"DELETE"|"TRACE"|"PATCH";
 
+/**
+ * The request as seen by a {@link Middleware}. Middleware can modify it in place, or return a replacement.
+ */
+export interface MiddlewareRequest {
+    /**
+     * The request url, or the Request object passed by the caller
+     */
+    url: string|URL|Request;
+    method: string;
+    /**
+     * The request headers, including default headers. These replace the headers of a Request object.
+     */
+    headers: Headers;
+    /**
+     * The remaining request settings, such as the body. Changes apply to the current attempt only.
+     */
+    init: RequestInit;
+}
+
+/**
+ * Supplies the access token for requests, see {@link FetchClientOptions.auth}.
+ */
+export interface AuthProvider {
+    /**
+     * Called before every attempt. If it returns undefined, the request is sent without token.
+     */
+    getToken(): string|undefined|Promise<string|undefined>;
+    /**
+     * Called when the server responds with status 401. Concurrent requests failing with 401 share a single refresh, 
+     * and requests started in the meantime wait for it to complete. Afterwards, {@link getToken} must return the new token.
+     * If the refresh fails, the request fails with the refresh error.
+     */
+    refreshToken(): Promise<unknown>;
+    /**
+     * Default: "Authorization"
+     */
+    header?: string;
+    /**
+     * Prefix of the header value; set to an empty string to send the plain token.
+     * Default: "Bearer"
+     */
+    scheme?: string;
+}
+
+/**
+ * Provided by a caching client for the requests it sends, see {@link MiddlewareContext.cache}.
+ */
+export interface MiddlewareCacheContext {
+    key: string;
+    /**
+     * "miss": no usable cache entry, "stale": revalidating a stale entry, "unknown": the cache is consulted concurrently
+     * or only if the request fails (modes "race" and "fetchFirst").
+     */
+    state: "miss"|"stale"|"unknown";
+}
+
+export interface MiddlewareContext {
+    endpoint: string;
+    method: string;
+    /**
+     * Starts at 1 for the initial request, and is incremented for every retry
+     */
+    attempt: number;
+    /**
+     * Only set for requests sent by a caching client, see {@link FetchClientCaching}. Responses served from the cache
+     * do not pass the middleware.
+     */
+    cache?: MiddlewareCacheContext;
+}
+
+/**
+ * Request/response interceptor, see {@link FetchClientOptions.middleware}. All hooks are optional and may be async.
+ */
+export interface Middleware {
+    /**
+     * Called before every attempt, e.g. to sign the request or add a correlation id header.
+     */
+    beforeRequest?(request: MiddlewareRequest, context: MiddlewareContext): MiddlewareRequest|void|Promise<MiddlewareRequest|void>;
+    /**
+     * Called for every response received, before the status code is evaluated. Return a Response to replace the original one.
+     */
+    afterResponse?(response: Response, context: MiddlewareContext): Response|void|Promise<Response|void>;
+    /**
+     * Called if an attempt fails due to a network error or an error status code ({@link HttpError}). Return a Response to recover from the error,
+     * throw to replace it, or return nothing to propagate the original error.
+     */
+    onError?(error: unknown, context: MiddlewareContext): Response|void|Promise<Response|void>;
+}
+
 /**
  * Resilience configuration for a fetch client
  */
@@ -342,8 +1705,38 @@ export interface FetchClientOptions {
     timeoutTotal?: Milliseconds;
     parallelRequests?: ParallelRequestsConfig;
     retries?: number|RetryConfig;
-    circuitBreaker?: CircuitBreakerConfig; 
+    /**
+     * Limit retries relative to the number of requests. Only relevant if {@link retries} is set, either client-wide or per request.
+     */
+    retryBudget?: RetryBudgetConfig;
+    /**
+     * Delay requests locally in order to stay within a rate limit.
+     */
+    rateLimit?: RateLimitConfig;
+    /**
+     * Send a second request if the first one takes too long, for safe methods (GET, HEAD, OPTIONS).
+     */
+    hedging?: HedgingConfig;
+    /**
+     * Either a single circuit breaker for all requests of the client, or a {@link ScopedCircuitBreakerConfig}
+     * for separate breakers per origin, path prefix or custom key.
+     */
+    circuitBreaker?: CircuitBreakerConfig|ScopedCircuitBreakerConfig; 
+    /**
+     * Persist the circuit breaker state, so that it survives a page reload, for instance. Only relevant if {@link circuitBreaker} is set.
+     */
+    circuitBreakerStore?: CircuitBreakerStore;
+    /**
+     * @deprecated use <code>logger: createConsoleLogger()</code> instead, see {@link logger}.
+     * Only relevant if no logger is set.
+     */
     consoleLogHttpIssues?: boolean;
+    /**
+     * By default, a resilient client is only created if any of the client-wide resilience features
+     * (timeouts, retries, circuit breaker, bulkhead) is configured. Set this flag to create a resilient client in any case,
+     * e.g. if resilience settings are only going to be provided per request, see {@link RequestOptions.retries} etc.
+     */
+    resilient?: boolean;
 
     /**
      * Set default headers for each request.
@@ -355,6 +1748,56 @@ export interface FetchClientOptions {
      */
     defaultHeadersByMethod?: Record<MethodName, HeadersInit>;
 
+    /**
+     * Request/response interceptors. beforeRequest hooks are called in the order of the array, afterResponse and onError hooks in reverse order.
+     * In a resilient client, the middleware is applied to every attempt, including retries and hedged requests.
+     */
+    middleware?: Array<Middleware>;
+    /**
+     * Adds an access token to all requests, and refreshes it when the server responds with status 401. 
+     * The request is then replayed once with the new token; the replay does not count as a retry.
+     */
+    auth?: AuthProvider;
+    /**
+     * Deduplicate concurrent identical GET requests: they share one underlying request, and every caller receives its own copy 
+     * of the response. The shared request is only aborted once all callers have aborted. Pass true for the default settings.
+     * Default: false
+     */
+    coalescing?: boolean|CoalescingConfig;
+    /**
+     * Queue mutations failing due to a network error and replay them later. Pass true for the default settings.
+     * Default: false
+     */
+    outbox?: boolean|OutboxConfig;
+    /**
+     * Do not send requests while offline. Pass true for the default settings, which make requests fail fast in browsers that report being offline.
+     * If an outbox is configured as well, it is replayed when the monitor reports that the client is online again.
+     * Default: false
+     */
+    connectivity?: boolean|ConnectivityConfig;
+    /**
+     * Inject faults, such as latency, network errors or error status codes, into requests. Meant for testing only.
+     */
+    faults?: FaultInjectionConfig;
+    /**
+     * Record all requests sent and the responses received, e.g. in HAR format.
+     */
+    recorder?: RequestRecorder;
+    /**
+     * Collect per-endpoint statistics, such as request counts, latencies, retries and cache hits.
+     */
+    metrics?: MetricsRegistry;
+    /**
+     * Open spans for requests and their attempts, and propagate the trace context via W3C Trace Context headers.
+     */
+    tracing?: TracingConfig;
+    /**
+     * Log retries, timeouts, circuit breaker transitions, cache write failures etc., with structured fields. 
+     * Pass a {@link LoggerConfig} to set the level and the redacted headers.
+     * Default: no log output
+     */
+    logger?: Logger|LoggerConfig;
+
     /**
      * Defaults to globalThis.fetch / window.fetch
      */
@@ -390,6 +1833,11 @@ export interface CacheConfiguration {
      * @returns 
      */
     deepCopy?: (object: any) => any;
+    /**
+     * Receives the log output of the cache, e.g. failures to clear or write the storage. 
+     * Default: the logger of the client, see {@link FetchClientOptions.logger}
+     */
+    logger?: Logger;
     
     [key: string]: any;  /* extensible... */
 }
@@ -409,11 +1857,23 @@ export function createFetchClient(options?: FetchClientOptions): Promise<FetchCl
  */
 export function createFetchClient(options?: any): Promise<FetchClient> {
     const retries = typeof options?.retries === "number" ? options.retries : options?.retries?.maxRetries;
-    const useSimpleClient: boolean = !(options?.timeoutRequest! > 0) && !(options?.parallelRequests?.maxParallelRequests! > 0) 
-                && !(retries! > 0) && !(options?.circuitBreaker?.openAfterFailedAttempts! > 0);
-    const clientPromise = useSimpleClient ? Promise.resolve(new SimpleFetchClient(options?.fetch, options?.baseUrl, options?.defaultHeaders, options?.defaultHeadersByMethod)) :
-        import("./ResilientClient.js").then(module => new module.ResilientFetchClient(options));
-    if (!options?.cache)
-        return clientPromise;
-    return Promise.all([clientPromise, import("./cache/CachingClient.js")]).then(([client, module]) => new module.CachingClient(client, options.cache));
+    const useSimpleClient: boolean = !options?.resilient && !(options?.timeoutRequest! > 0) && !(options?.parallelRequests?.maxParallelRequests! > 0) 
+                && !(retries! > 0) && !options?.circuitBreaker && !options?.hedging && !options?.rateLimit;
+    const clientPromise = useSimpleClient ? Promise.resolve(new SimpleFetchClient(options)) :
+        import("./ResilientClient.js").then(module => module.ResilientFetchClient.create(options));
+    const result: Promise<FetchClient> = !options?.cache ? clientPromise :
+        Promise.all([clientPromise, import("./cache/CachingClient.js")]).then(([client, module]) => new module.CachingClient(client, options.cache, options));
+    if (!options?.metrics)
+        return result;
+    return result.then(client => {
+        options.metrics.attach(client);
+        return client;
+    });
+}
+
+/**
+ * Create a logger writing to the console, to be passed as {@link FetchClientOptions.logger}.
+ */
+export function createConsoleLogger(): Logger {
+    return new ConsoleLogger();
 }
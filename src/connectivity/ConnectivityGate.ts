@@ -0,0 +1,167 @@
+import { ConnectivityConfig, ConnectivityMonitor, Milliseconds, OfflineError } from "../client.js";
+
+/**
+ * Base class for the built-in monitors, keeping track of the listeners
+ */
+abstract class ListenerSupport {
+
+    readonly #listeners: Set<(online: boolean) => void> = new Set();
+
+    subscribe(listener: (online: boolean) => void): () => void {
+        this.#listeners.add(listener);
+        return () => this.#listeners.delete(listener);
+    }
+
+    protected _notify(online: boolean) {
+        for (const listener of this.#listeners) {
+            try {
+                listener(online);
+            } catch (_) {}  // listeners must not interfere with the monitor
+        }
+    }
+
+}
+
+/**
+ * Based on navigator.onLine and the online/offline events of the browser. If these are not available, the client is considered online.
+ */
+class BrowserConnectivityMonitor extends ListenerSupport implements ConnectivityMonitor {
+
+    readonly #onOnline = () => this._notify(true);
+    readonly #onOffline = () => this._notify(false);
+    readonly #events: boolean = typeof globalThis.addEventListener === "function";
+
+    constructor() {
+        super();
+        if (this.#events) {
+            globalThis.addEventListener("online", this.#onOnline);
+            globalThis.addEventListener("offline", this.#onOffline);
+        }
+    }
+
+    online(): boolean {
+        return (globalThis.navigator as Navigator|undefined)?.onLine !== false;
+    }
+
+    close() {
+        if (this.#events) {
+            globalThis.removeEventListener("online", this.#onOnline);
+            globalThis.removeEventListener("offline", this.#onOffline);
+        }
+    }
+
+}
+
+/**
+ * Calls the probe periodically. The client is considered online until the first probe has completed.
+ */
+class ProbeConnectivityMonitor extends ListenerSupport implements ConnectivityMonitor {
+
+    readonly #timer: ReturnType<typeof setInterval>;
+    #online: boolean = true;
+    #probing: boolean = false;
+
+    constructor(private readonly _probe: () => boolean|Promise<boolean>, interval: Milliseconds) {
+        super();
+        this.#timer = globalThis.setInterval(() => this._check(), interval);
+        // in NodeJS, the timer must not keep the process alive
+        (this.#timer as {unref?: () => void}).unref?.();
+        this._check();
+    }
+
+    online(): boolean {
+        return this.#online;
+    }
+
+    close() {
+        globalThis.clearInterval(this.#timer);
+    }
+
+    private async _check() {
+        if (this.#probing)
+            return;
+        this.#probing = true;
+        let online: boolean;
+        try {
+            online = !!(await this._probe());
+        } catch (_) {
+            online = false;
+        }
+        this.#probing = false;
+        if (online !== this.#online) {
+            this.#online = online;
+            this._notify(online);
+        }
+    }
+
+}
+
+/**
+ * Lets requests pass while the client is online, and rejects or holds them back while it is offline.
+ */
+export class ConnectivityGate {
+
+    static readonly #DEFAULT_PROBE_INTERVAL: Milliseconds = 10_000;
+    static readonly #DEFAULT_MAX_WAIT: Milliseconds = 30_000;
+    readonly #monitor: ConnectivityMonitor;
+    // only monitors created by us are closed
+    readonly #ownsMonitor: boolean;
+    readonly #wait: boolean;
+    readonly #maxWait: Milliseconds;
+
+    constructor(config: ConnectivityConfig) {
+        this.#ownsMonitor = !config.monitor;
+        this.#monitor = config.monitor || (config.probe ?
+            new ProbeConnectivityMonitor(config.probe, config.probeInterval! > 0 ? config.probeInterval! : ConnectivityGate.#DEFAULT_PROBE_INTERVAL) :
+            new BrowserConnectivityMonitor());
+        this.#wait = config.whenOffline === "wait";
+        this.#maxWait = config.maxWait ?? ConnectivityGate.#DEFAULT_MAX_WAIT;
+    }
+
+    monitor(): ConnectivityMonitor {
+        return this.#monitor;
+    }
+
+    /**
+     * Resolves immediately if the client is online. Otherwise, depending on the configuration, it either fails with an OfflineError
+     * or waits for the client to go online again.
+     */
+    acquire(endpoint: string, signal: AbortSignal): Promise<void> {
+        if (this.#monitor.online())
+            return Promise.resolve();
+        if (signal.aborted)
+            return Promise.reject(signal.reason);
+        if (!this.#wait || !(this.#maxWait > 0))
+            return Promise.reject(new OfflineError("Request to " + endpoint + " not sent, client is offline", 0));
+        const start = Date.now();
+        return new Promise((resolve, reject) => {
+            const finish = () => {
+                globalThis.clearTimeout(timer);
+                unsubscribe();
+                signal.removeEventListener("abort", onAbort);
+            };
+            const onAbort = () => {
+                finish();
+                reject(signal.reason);
+            };
+            const unsubscribe = this.#monitor.subscribe(online => {
+                if (!online)
+                    return;
+                finish();
+                resolve();
+            });
+            const timer = globalThis.setTimeout(() => {
+                finish();
+                const waited = Date.now() - start;
+                reject(new OfflineError("Request to " + endpoint + " not sent, client has been offline for " + waited + "ms", waited));
+            }, this.#maxWait);
+            signal.addEventListener("abort", onAbort, {once: true});
+        });
+    }
+
+    close() {
+        if (this.#ownsMonitor)
+            this.#monitor.close?.();
+    }
+
+}
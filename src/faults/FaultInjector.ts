@@ -0,0 +1,149 @@
+import { Fault, FaultInjectionConfig, FaultRule, Milliseconds } from "../client.js";
+
+interface RuleState {
+    rule: FaultRule;
+    methods: Array<string>|undefined;
+    // number of matching requests so far, for scripted faults
+    matched: number;
+}
+
+/**
+ * Wraps a fetch function and injects faults into the requests matching the configured rules.
+ */
+export class FaultInjector {
+
+    static readonly #DEFAULT_CONTENT_TYPE = "text/html";
+    static readonly #DEFAULT_STATUS_BODY = "Injected fault";
+    // status codes for which a Response must not have a body
+    static readonly #NULL_BODY_STATUS = [204, 205, 304];
+    readonly #rules: Array<RuleState>;
+    readonly #random: () => number;
+
+    constructor(config: FaultInjectionConfig, private readonly _fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>) {
+        for (const rule of config.rules) {
+            if (rule.probability !== undefined && !(rule.probability >= 0 && rule.probability <= 1))
+                throw new RangeError("Fault probability must be between 0 and 1, got " + rule.probability);
+            if (rule.fault.type === "status" && !(rule.fault.status >= 200 && rule.fault.status <= 599))
+                throw new RangeError("Injected status code must be between 200 and 599, got " + rule.fault.status);
+        }
+        this.#rules = config.rules.map(rule => ({rule: rule, methods: rule.methods?.map(m => m.toUpperCase()), matched: 0}));
+        this.#random = FaultInjector._seededRandom(config.seed ?? Math.floor(Math.random() * 4294967296));
+    }
+
+    readonly fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const url: string = input instanceof Request ? input.url : input.toString();
+        const method: string = (init?.method || (input instanceof Request ? input.method : undefined) || "GET").toUpperCase();
+        let delay: Milliseconds = 0;
+        let fault: Fault|undefined = undefined;
+        // all rules are evaluated, so that the counters of scripted faults and the random sequence do not depend on the other rules
+        for (const state of this.#rules) {
+            if (!this._selects(state, url, method))
+                continue;
+            const current = state.rule.fault;
+            if (current.type === "latency")
+                delay += current.delay + (current.jitter ? this.#random() * current.jitter : 0);
+            else if (!fault)
+                fault = current;
+        }
+        if (delay > 0)
+            await FaultInjector._sleep(delay, init?.signal ?? (input instanceof Request ? input.signal : undefined));
+        switch (fault?.type) {
+        case "networkError":
+            throw new TypeError("Failed to fetch");
+        case "status":
+            return FaultInjector._statusResponse(fault.status, fault.body, fault.retryAfter, url);
+        }
+        const response = await this._fetch(input, init);
+        switch (fault?.type) {
+        case "truncatedBody":
+            return FaultInjector._truncate(response, fault.bytes, fault.fail !== false);
+        case "contentType": {
+            const headers = new Headers(response.headers);
+            headers.set("Content-Type", fault.contentType || FaultInjector.#DEFAULT_CONTENT_TYPE);
+            return FaultInjector._withBody(response, response.body, headers);
+        }
+        }
+        return response;
+    };
+
+    private _selects(state: RuleState, url: string, method: string): boolean {
+        const rule = state.rule;
+        if (state.methods && state.methods.indexOf(method) < 0)
+            return false;
+        if (rule.url !== undefined && (typeof rule.url === "string" ? url.indexOf(rule.url) < 0 : !rule.url.test(url)))
+            return false;
+        state.matched++;
+        if (rule.requests && rule.requests.indexOf(state.matched) < 0)
+            return false;
+        return rule.probability === undefined || rule.probability >= 1 || this.#random() < rule.probability;
+    }
+
+    private static _statusResponse(status: number, body: string|undefined, retryAfter: number|undefined, url: string): Response {
+        const headers = new Headers({"Content-Type": "text/plain"});
+        if (retryAfter !== undefined)
+            headers.set("Retry-After", String(retryAfter));
+        const response = new Response(FaultInjector.#NULL_BODY_STATUS.indexOf(status) >= 0 ? null : body ?? FaultInjector.#DEFAULT_STATUS_BODY,
+            {status: status, headers: headers});
+        Object.defineProperty(response, "url", {value: url});
+        return response;
+    }
+
+    private static async _truncate(response: Response, bytes: number|undefined, fail: boolean): Promise<Response> {
+        if (!response.body)
+            return response;
+        const content = new Uint8Array(await response.arrayBuffer());
+        const truncated = content.subarray(0, bytes ?? Math.floor(content.byteLength / 2));
+        let sent = false;
+        const body = new ReadableStream<Uint8Array>({
+            pull: controller => {
+                if (!sent) {
+                    sent = true;
+                    controller.enqueue(truncated);
+                } else if (fail) {
+                    controller.error(new TypeError("terminated"));  // as reported by NodeJS for a dropped connection
+                } else {
+                    controller.close();
+                }
+            }
+        });
+        return FaultInjector._withBody(response, body, response.headers);
+    }
+
+    private static _withBody(response: Response, body: ReadableStream<Uint8Array>|null, headers: Headers): Response {
+        const result = new Response(body, {status: response.status, statusText: response.statusText, headers: headers});
+        Object.defineProperty(result, "url", {value: response.url});
+        Object.defineProperty(result, "redirected", {value: response.redirected});
+        return result;
+    }
+
+    private static _sleep(delay: Milliseconds, signal: AbortSignal|null|undefined): Promise<void> {
+        if (signal?.aborted)
+            return Promise.reject(signal.reason);
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                globalThis.clearTimeout(timer);
+                reject(signal!.reason);
+            };
+            const timer = globalThis.setTimeout(() => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            }, delay);
+            signal?.addEventListener("abort", onAbort, {once: true});
+        });
+    }
+
+    /**
+     * Mulberry32, a small seedable pseudo random number generator, see https://gist.github.com/tommyettinger/46a874533244883189143505d203312c
+     */
+    private static _seededRandom(seed: number): () => number {
+        let state = seed >>> 0;
+        return () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+
+}
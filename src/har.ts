@@ -0,0 +1,150 @@
+import { Milliseconds, RequestRecorder } from "./client.js";
+import { HarRecorderImpl } from "./har/HarRecorder.js";
+import { HarReplay } from "./har/HarReplay.js";
+
+// =========================================================================== //
+// This file contains the recording of requests in HAR format, and a fetch     //
+// function replaying recorded responses, e.g. for tests and offline demos.    //
+// =========================================================================== //
+
+/**
+ * A HAR 1.2 document, see http://www.softwareishard.com/blog/har-12-spec/. Only the parts relevant for recording
+ * and replaying requests are typed.
+ */
+export interface Har {
+    log: HarLog;
+}
+
+export interface HarLog {
+    version: string;
+    creator: {name: string; version: string;};
+    entries: Array<HarEntry>;
+    [key: string]: unknown;
+}
+
+export interface HarNameValue {
+    name: string;
+    value: string;
+}
+
+export interface HarEntry {
+    startedDateTime: string;
+    time: Milliseconds;
+    request: HarRequest;
+    response: HarResponse;
+    cache: object;
+    timings: {send: Milliseconds; wait: Milliseconds; receive: Milliseconds; [key: string]: Milliseconds|undefined;};
+    /**
+     * Custom field: the attempt number of the request, starting at 1, see {@link RecordedExchange.attempt}
+     */
+    _attempt?: number;
+    [key: string]: unknown;
+}
+
+export interface HarRequest {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: Array<unknown>;
+    headers: Array<HarNameValue>;
+    queryString: Array<HarNameValue>;
+    postData?: {mimeType: string; text: string; encoding?: string; [key: string]: unknown;};
+    headersSize: number;
+    bodySize: number;
+    [key: string]: unknown;
+}
+
+export interface HarResponse {
+    /**
+     * 0 if the request failed without a response, e.g. due to a network error
+     */
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: Array<unknown>;
+    headers: Array<HarNameValue>;
+    content: {size: number; mimeType: string; text?: string; encoding?: string; [key: string]: unknown;};
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    /**
+     * Custom field: the error message if the request failed
+     */
+    _error?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Collects the requests of a client, see {@link createHarRecorder}.
+ */
+export interface HarRecorder extends RequestRecorder {
+    /**
+     * Returns the entries recorded so far, in the order the requests were sent. Waits for response bodies still being read.
+     */
+    export(): Promise<Har>;
+    /**
+     * Remove all entries recorded so far
+     */
+    clear(): void;
+}
+
+/**
+ * Which parts of a request must equal the recorded one for the recorded response to be served, see {@link createHarReplay}.
+ */
+export interface HarMatchRules {
+    /**
+     * Default: true
+     */
+    method?: boolean;
+    /**
+     * Compare the origin and path of the url.
+     * Default: true
+     */
+    url?: boolean;
+    /**
+     * Compare the query parameters, irrespective of their order.
+     * Default: true
+     */
+    query?: boolean;
+    /**
+     * Query parameters to ignore, e.g. cache busters or timestamps. Only relevant if {@link query} is true.
+     */
+    ignoreQueryParams?: Array<string>;
+    /**
+     * Compare a hash of the request body.
+     * Default: false
+     */
+    body?: boolean;
+}
+
+export interface HarReplayConfig {
+    match?: HarMatchRules;
+    /**
+     * "fail": requests without a matching entry are rejected, "passThrough": they are sent via {@link fetch}.
+     * Default: "fail"
+     */
+    unmatched?: "fail"|"passThrough";
+    /**
+     * Only relevant if {@link unmatched} is "passThrough".
+     * Default: globalThis.fetch
+     */
+    fetch?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+}
+
+/**
+ * Create a recorder to be passed as {@link FetchClientOptions.recorder}. Every attempt becomes an entry, including retries and
+ * hedged requests; requests failing without a response are recorded with status 0.
+ * @param creator the creator of the HAR log. Default: resilient-fetch-client
+ */
+export function createHarRecorder(creator?: {name: string; version: string;}): HarRecorder {
+    return new HarRecorderImpl(creator);
+}
+
+/**
+ * Create a fetch function serving the responses recorded in a HAR file, to be passed as {@link FetchClientOptions.fetch}.
+ * If multiple entries match a request, they are served in the recorded order, e.g. a failed attempt followed by a successful retry;
+ * the last one is repeated afterwards. Entries with status 0 fail like a network error.
+ */
+export function createHarReplay(har: Har, config?: HarReplayConfig): (input: RequestInfo | URL, init?: RequestInit) => Promise<Response> {
+    return new HarReplay(har, config || {}).fetch;
+}
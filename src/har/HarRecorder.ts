@@ -0,0 +1,118 @@
+import { RecordedExchange } from "../client.js";
+import { Har, HarEntry, HarNameValue, HarRecorder } from "../har.js";
+
+/**
+ * Converts the recorded exchanges into HAR entries. Response bodies are read asynchronously, 
+ * so the entries are only complete once {@link export} resolves.
+ */
+export class HarRecorderImpl implements HarRecorder {
+
+    static readonly #DEFAULT_CREATOR = {name: "resilient-fetch-client", version: ""};
+    // mime types stored as text, all others are base64 encoded
+    static readonly #TEXT_TYPES = /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)\b/i;
+    // only used to parse relative urls, which occur if the client has no baseUrl and fetch supports them
+    static readonly #RELATIVE_BASE = "http://localhost";
+    readonly #creator: {name: string; version: string;};
+    #entries: Array<Promise<HarEntry>> = [];
+
+    constructor(creator?: {name: string; version: string;}) {
+        this.#creator = creator || HarRecorderImpl.#DEFAULT_CREATOR;
+    }
+
+    record(exchange: RecordedExchange): void {
+        const entry = HarRecorderImpl._entry(exchange);
+        // avoid unhandled rejections; entries are never rejected anyway
+        entry.catch(() => {});
+        this.#entries.push(entry);
+    }
+
+    async export(): Promise<Har> {
+        const entries = await Promise.all(this.#entries);
+        return {log: {version: "1.2", creator: {...this.#creator}, entries: entries}};
+    }
+
+    clear(): void {
+        this.#entries = [];
+    }
+
+    private static async _entry(exchange: RecordedExchange): Promise<HarEntry> {
+        const url = new URL(exchange.url, HarRecorderImpl.#RELATIVE_BASE);
+        const requestHeaders = HarRecorderImpl._headers(exchange.requestHeaders);
+        const requestType = exchange.requestHeaders.get("Content-Type") || "";
+        const entry: HarEntry = {
+            startedDateTime: exchange.started.toISOString(),
+            time: exchange.wait,
+            request: {
+                method: exchange.method,
+                url: exchange.url,
+                httpVersion: "",
+                cookies: [],
+                headers: requestHeaders,
+                queryString: HarRecorderImpl._params(url.searchParams),
+                headersSize: -1,
+                bodySize: exchange.requestBody ? exchange.requestBody.byteLength : 0
+            },
+            response: {
+                status: 0,
+                statusText: "",
+                httpVersion: "",
+                cookies: [],
+                headers: [],
+                content: {size: 0, mimeType: "x-unknown"},
+                redirectURL: "",
+                headersSize: -1,
+                bodySize: -1
+            },
+            cache: {},
+            timings: {blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: exchange.wait, receive: 0},
+            _attempt: exchange.attempt
+        };
+        if (exchange.requestBody)
+            entry.request.postData = {mimeType: requestType, ...HarRecorderImpl._content(exchange.requestBody, requestType)};
+        const response = exchange.response;
+        if (!response) {
+            entry.response._error = exchange.error instanceof Error ? exchange.error.message : String(exchange.error);
+            return entry;
+        }
+        const mimeType = response.headers.get("Content-Type") || "";
+        entry.response.status = response.status;
+        entry.response.statusText = response.statusText;
+        entry.response.headers = HarRecorderImpl._headers(response.headers);
+        entry.response.redirectURL = response.headers.get("Location") || "";
+        entry.response.content.mimeType = mimeType;
+        const start = Date.now();
+        try {
+            const body = await response.arrayBuffer();
+            entry.response.content = {size: body.byteLength, mimeType: mimeType, ...HarRecorderImpl._content(body, mimeType)};
+            entry.response.bodySize = body.byteLength;
+        } catch (e) {  // e.g. the connection was dropped
+            entry.response._error = e instanceof Error ? e.message : String(e);
+        }
+        entry.timings.receive = Date.now() - start;
+        entry.time = entry.timings.wait + entry.timings.receive;
+        return entry;
+    }
+
+    private static _content(body: ArrayBuffer, mimeType: string): {text: string; encoding?: string;} {
+        if (!mimeType || HarRecorderImpl.#TEXT_TYPES.test(mimeType))
+            return {text: new TextDecoder().decode(body)};
+        const bytes = new Uint8Array(body);
+        let binary = "";
+        for (let idx = 0; idx < bytes.length; idx++)
+            binary += String.fromCharCode(bytes[idx]);
+        return {text: btoa(binary), encoding: "base64"};
+    }
+
+    private static _params(params: URLSearchParams): Array<HarNameValue> {
+        const result: Array<HarNameValue> = [];
+        params.forEach((value, name) => result.push({name: name, value: value}));
+        return result;
+    }
+
+    private static _headers(headers: Headers): Array<HarNameValue> {
+        const result: Array<HarNameValue> = [];
+        headers.forEach((value, name) => result.push({name: name, value: value}));
+        return result;
+    }
+
+}
@@ -0,0 +1,121 @@
+import { Har, HarEntry, HarMatchRules, HarReplayConfig } from "../har.js";
+
+interface EntryGroup {
+    entries: Array<HarEntry>;
+    // number of responses served so far
+    served: number;
+}
+
+/**
+ * A fetch function serving the responses of a HAR file.
+ */
+export class HarReplay {
+
+    // headers not applicable to the decoded body stored in the HAR file
+    static readonly #SKIPPED_HEADERS = ["content-encoding", "content-length", "transfer-encoding"];
+    // status codes for which a Response must not have a body
+    static readonly #NULL_BODY_STATUS = [204, 205, 304];
+    // only used to parse relative urls, which occur if the client has no baseUrl and fetch supports them
+    static readonly #RELATIVE_BASE = "http://localhost";
+    readonly #entries: Array<HarEntry>;
+    readonly #rules: Required<HarMatchRules>;
+    readonly #config: HarReplayConfig;
+    // keys: request key built by _key
+    readonly #groups: Map<string, EntryGroup> = new Map();
+    #initialized: Promise<void>|undefined = undefined;
+
+    constructor(har: Har, config: HarReplayConfig) {
+        if (!Array.isArray(har?.log?.entries))
+            throw new TypeError("Not a HAR document");
+        this.#entries = har.log.entries;
+        this.#config = config;
+        this.#rules = {method: true, url: true, query: true, ignoreQueryParams: [], body: false, ...config.match};
+    }
+
+    readonly fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        await (this.#initialized = this.#initialized || this._initialize());
+        const url: string = input instanceof Request ? input.url : input.toString();
+        const method: string = (init?.method || (input as Request)?.method || "GET").toUpperCase();
+        let body: ArrayBuffer|undefined = undefined;
+        if (this.#rules.body) {
+            if (init?.body !== undefined && init.body !== null)
+                body = await new Response(init.body).arrayBuffer();
+            else if (input instanceof Request && input.body)
+                body = await input.clone().arrayBuffer();
+        }
+        const group = this.#groups.get(await this._key(method, url, body));
+        if (!group) {
+            if (this.#config.unmatched === "passThrough")
+                return (this.#config.fetch || globalThis.fetch)(input, init);
+            throw new Error("No recorded response for " + method + " " + url);
+        }
+        const entry = group.entries[Math.min(group.served++, group.entries.length - 1)];
+        return HarReplay._response(entry, url);
+    };
+
+    private async _initialize() {
+        for (const entry of this.#entries) {
+            const postData = entry.request.postData;
+            const body = postData?.text !== undefined ? HarReplay._decode(postData.text, postData.encoding) : undefined;
+            const key = await this._key(entry.request.method.toUpperCase(), entry.request.url, body);
+            const group = this.#groups.get(key);
+            if (group)
+                group.entries.push(entry);
+            else
+                this.#groups.set(key, {entries: [entry], served: 0});
+        }
+    }
+
+    private async _key(method: string, url: string, body: ArrayBuffer|undefined): Promise<string> {
+        const parsed = new URL(url, HarReplay.#RELATIVE_BASE);
+        const parts: Array<string> = [];
+        if (this.#rules.method)
+            parts.push(method);
+        if (this.#rules.url)
+            parts.push(parsed.origin + parsed.pathname);
+        if (this.#rules.query) {
+            const params: Array<string> = [];
+            parsed.searchParams.forEach((value, name) => {
+                if (this.#rules.ignoreQueryParams.indexOf(name) < 0)
+                    params.push(encodeURIComponent(name) + "=" + encodeURIComponent(value));
+            });
+            params.sort();
+            parts.push(params.join("&"));
+        }
+        if (this.#rules.body)
+            parts.push(body && body.byteLength > 0 ? HarReplay._hex(await globalThis.crypto.subtle.digest("SHA-256", body)) : "");
+        return parts.join(" ");
+    }
+
+    private static _response(entry: HarEntry, url: string): Response {
+        const recorded = entry.response;
+        if (!(recorded.status > 0))  // the recorded request failed without a response
+            throw new TypeError("Failed to fetch");
+        const headers = new Headers();
+        for (const header of recorded.headers) {
+            if (HarReplay.#SKIPPED_HEADERS.indexOf(header.name.toLowerCase()) < 0)
+                headers.append(header.name, header.value);
+        }
+        const content = recorded.content;
+        const body = HarReplay.#NULL_BODY_STATUS.indexOf(recorded.status) >= 0 || content?.text === undefined ? null 
+            : HarReplay._decode(content.text, content.encoding);
+        const response = new Response(body, {status: recorded.status, statusText: recorded.statusText, headers: headers});
+        Object.defineProperty(response, "url", {value: url});
+        return response;
+    }
+
+    private static _decode(text: string, encoding: string|undefined): ArrayBuffer {
+        if (encoding !== "base64")
+            return new TextEncoder().encode(text).buffer as ArrayBuffer;
+        const binary = atob(text);
+        const bytes = new Uint8Array(binary.length);
+        for (let idx = 0; idx < binary.length; idx++)
+            bytes[idx] = binary.charCodeAt(idx);
+        return bytes.buffer;
+    }
+
+    private static _hex(buffer: ArrayBuffer): string {
+        return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, "0")).join("");
+    }
+
+}
@@ -0,0 +1,134 @@
+import { LogFields, Logger, LoggerConfig, LogLevel } from "../client.js";
+
+/**
+ * Wraps the logger configured by the user, see {@link FetchClientOptions.logger}. Drops messages below the configured level,
+ * redacts sensitive headers and ignores exceptions thrown by the logger. Without a configured logger, nothing is logged.
+ */
+export class ClientLogger implements Logger {
+
+    static readonly #LEVELS: Record<LogLevel|"silent", number> = {debug: 0, info: 1, warn: 2, error: 3, silent: 4};
+    static readonly #DEFAULT_REDACTED_HEADERS: ReadonlyArray<string> = ["authorization", "proxy-authorization", "cookie", "set-cookie"];
+    static readonly #REDACTED = "[REDACTED]";
+    // nested values below this depth are not logged, e.g. the causes of the causes of an error
+    static readonly #MAX_DEPTH = 5;
+    readonly #logger: Logger|undefined;
+    readonly #level: number;
+    readonly #redactHeaders: ReadonlyArray<string>;
+
+    constructor(config: Logger|LoggerConfig|undefined) {
+        const isConfig: boolean = !!config && "logger" in config;
+        this.#logger = isConfig ? (config as LoggerConfig).logger : config as Logger|undefined;
+        this.#level = this.#logger ? ClientLogger.#LEVELS[(isConfig ? (config as LoggerConfig).level : undefined) || "info"] : ClientLogger.#LEVELS.silent;
+        const custom: Array<string> = (isConfig ? (config as LoggerConfig).redactHeaders : undefined) || [];
+        const defaults: ReadonlyArray<string> = isConfig && (config as LoggerConfig).redactDefaultHeaders === false ? [] : ClientLogger.#DEFAULT_REDACTED_HEADERS;
+        this.#redactHeaders = [...defaults, ...custom].map(header => header.toLowerCase());
+    }
+
+    /**
+     * Allows callers to skip the preparation of expensive fields, such as request headers.
+     */
+    enabled(level: LogLevel): boolean {
+        return ClientLogger.#LEVELS[level] >= this.#level;
+    }
+
+    debug(message: string, fields?: LogFields): void {
+        this.log("debug", message, fields);
+    }
+
+    info(message: string, fields?: LogFields): void {
+        this.log("info", message, fields);
+    }
+
+    warn(message: string, fields?: LogFields): void {
+        this.log("warn", message, fields);
+    }
+
+    error(message: string, fields?: LogFields): void {
+        this.log("error", message, fields);
+    }
+
+    log(level: LogLevel, message: string, fields?: LogFields): void {
+        if (!this.enabled(level))
+            return;
+        try {
+            this.#logger![level](message, fields ? this._redact(fields, new Set(), 0) as LogFields : undefined);
+        } catch (_) {}  // the logger must not interfere with request processing
+    }
+
+    /**
+     * Returns a copy of the value with the values of sensitive headers replaced, at any depth. Headers, requests, responses and errors are 
+     * converted to plain objects, since the headers of an HttpError, for instance, would otherwise reach the logger unredacted.
+     * Fields named like a sensitive header are replaced as well.
+     */
+    private _redact(value: unknown, seen: Set<object>, depth: number): unknown {
+        if (typeof value !== "object" || value === null)
+            return value;
+        if (seen.has(value))
+            return "[Circular]";
+        if (depth > ClientLogger.#MAX_DEPTH)
+            return "[Truncated]";
+        if (value instanceof Headers)
+            return this._redactHeaders(value);
+        if (value instanceof Request)
+            return {method: value.method, url: value.url, headers: this._redactHeaders(value.headers)};
+        if (value instanceof Response)
+            return {status: value.status, statusText: value.statusText, url: value.url, headers: this._redactHeaders(value.headers)};
+        seen.add(value);
+        try {
+            if (Array.isArray(value))
+                return value.map(entry => this._redact(entry, seen, depth + 1));
+            const isError: boolean = value instanceof Error;
+            const proto = Object.getPrototypeOf(value);
+            if (!isError && proto !== Object.prototype && proto !== null)
+                return value;  // e.g. a Date or a URL, which do not contain headers
+            const result: Record<string, unknown> = isError ? {name: (value as Error).name} : {};
+            // own property names include the non-enumerable message, stack and cause of errors
+            for (const key of isError ? Object.getOwnPropertyNames(value) : Object.keys(value)) {
+                const entry = (value as Record<string, unknown>)[key];
+                if (entry === undefined)
+                    continue;
+                result[key] = this.#redactHeaders.indexOf(key.toLowerCase()) >= 0 ? ClientLogger.#REDACTED : this._redact(entry, seen, depth + 1);
+            }
+            return result;
+        } finally {
+            seen.delete(value);
+        }
+    }
+
+    private _redactHeaders(headers: Headers): Record<string, string> {
+        const result: Record<string, string> = {};
+        headers.forEach((value, name) => result[name] = this.#redactHeaders.indexOf(name.toLowerCase()) >= 0 ? ClientLogger.#REDACTED : value);
+        return result;
+    }
+
+}
+
+/**
+ * Writes to the console, passing the fields as second argument, see <code>createConsoleLogger</code>.
+ */
+export class ConsoleLogger implements Logger {
+
+    debug(message: string, fields?: LogFields): void {
+        ConsoleLogger._write(console.debug, message, fields);
+    }
+
+    info(message: string, fields?: LogFields): void {
+        ConsoleLogger._write(console.info, message, fields);
+    }
+
+    warn(message: string, fields?: LogFields): void {
+        ConsoleLogger._write(console.warn, message, fields);
+    }
+
+    error(message: string, fields?: LogFields): void {
+        ConsoleLogger._write(console.error, message, fields);
+    }
+
+    private static _write(target: (...data: Array<any>) => void, message: string, fields: LogFields|undefined) {
+        if (fields)
+            target(message, fields);
+        else
+            target(message);
+    }
+
+}
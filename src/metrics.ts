@@ -0,0 +1,85 @@
+import { MetricsRegistry, MetricsSnapshot, Milliseconds } from "./client.js";
+import { MetricsCollector } from "./metrics/MetricsCollector.js";
+
+// =========================================================================== //
+// This file contains the collection of request metrics, and their export in   //
+// the OpenMetrics text format, as scraped by Prometheus.                      //
+// =========================================================================== //
+
+export interface MetricsConfig {
+    /**
+     * Maps an endpoint to the route label of the metrics, e.g. "users/4711" to "users/{id}". Since a separate time series is kept 
+     * for every route, ids and other variable path segments should be replaced.
+     * Default: the endpoint without query string
+     */
+    route?: (endpoint: string, method: string) => string;
+    /**
+     * Upper bounds of the latency histogram buckets.
+     * Default: [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+     */
+    buckets?: Array<Milliseconds>;
+    /**
+     * Prefix of the metric names.
+     * Default: "fetch_client"
+     */
+    prefix?: string;
+}
+
+/**
+ * Create a registry to be passed as {@link FetchClientOptions.metrics}. It can be shared between multiple clients. Collected metrics:
+ * <ul>
+ *   <li>requests: counter by route, method and status class of the final response ("2xx", ..., "5xx", or "error" if there was no response)</li>
+ *   <li>request_duration_seconds: histogram by route and method, including queueing and retries</li>
+ *   <li>attempt_duration_seconds: histogram by route, method and attempt ("first" or "last")</li>
+ *   <li>retries: counter by route and method</li>
+ *   <li>timeouts: counter by route, method and scope ("request" or "total")</li>
+ *   <li>circuit_transitions: counter by breaker key and state ("open", "halfOpen", "closed")</li>
+ *   <li>bulkhead_queue_wait_seconds: histogram by route and method</li>
+ *   <li>bulkhead_rejections: counter by route and method</li>
+ *   <li>cache_requests: counter by route, method and result ("hit", "stale", "revalidated", "miss")</li>
+ * </ul>
+ */
+export function createMetricsRegistry(config?: MetricsConfig): MetricsRegistry {
+    return new MetricsCollector(config || {});
+}
+
+/**
+ * Serialize a snapshot in the OpenMetrics text format, see https://github.com/OpenObservability/OpenMetrics/blob/main/specification/OpenMetrics.md.
+ */
+export function toOpenMetrics(snapshot: MetricsSnapshot): string {
+    const lines: Array<string> = [];
+    for (const metric of snapshot.metrics) {
+        lines.push("# TYPE " + metric.name + " " + metric.type);
+        if (metric.name.endsWith("_seconds"))
+            lines.push("# UNIT " + metric.name + " seconds");
+        lines.push("# HELP " + metric.name + " " + escape(metric.help));
+        if (metric.type === "counter") {
+            for (const sample of metric.samples)
+                lines.push(metric.name + "_total" + labels(sample.labels) + " " + number(sample.value));
+            continue;
+        }
+        for (const sample of metric.samples) {
+            for (const bucket of sample.buckets)
+                lines.push(metric.name + "_bucket" + labels(sample.labels, number(bucket.le)) + " " + bucket.count);
+            lines.push(metric.name + "_count" + labels(sample.labels) + " " + sample.count);
+            lines.push(metric.name + "_sum" + labels(sample.labels) + " " + number(sample.sum));
+        }
+    }
+    lines.push("# EOF");
+    return lines.join("\n") + "\n";
+}
+
+function labels(values: Record<string, string>, le?: string): string {
+    const pairs: Array<string> = Object.keys(values).map(key => key + "=\"" + escape(values[key]) + "\"");
+    if (le !== undefined)
+        pairs.push("le=\"" + le + "\"");
+    return pairs.length > 0 ? "{" + pairs.join(",") + "}" : "";
+}
+
+function number(value: number): string {
+    return value === Infinity ? "+Inf" : value === -Infinity ? "-Inf" : String(value);
+}
+
+function escape(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
+}
@@ -0,0 +1,146 @@
+import { CounterSample, FetchClient, HistogramSample, MetricFamily, MetricsRegistry, MetricsSnapshot, Milliseconds } from "../client.js";
+import { MetricsConfig } from "../metrics.js";
+
+/**
+ * A counter or histogram with all its label combinations
+ */
+class Metric {
+
+    // keys: serialized label values
+    readonly #samples: Map<string, CounterSample|HistogramSample> = new Map();
+
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        // upper bounds in seconds, undefined for a counter
+        private readonly _buckets?: ReadonlyArray<number>
+    ) {}
+
+    inc(labels: Record<string, string>) {
+        const sample = this._sample(labels) as CounterSample;
+        sample.value++;
+    }
+
+    observe(labels: Record<string, string>, value: Milliseconds) {
+        const sample = this._sample(labels) as HistogramSample;
+        const seconds = value / 1000;
+        for (const bucket of sample.buckets) {
+            if (seconds <= bucket.le)
+                bucket.count++;
+        }
+        sample.count++;
+        sample.sum += seconds;
+    }
+
+    reset() {
+        this.#samples.clear();
+    }
+
+    snapshot(): MetricFamily {
+        if (!this._buckets)
+            return {name: this.name, help: this.help, type: "counter", samples: Array.from(this.#samples.values(), 
+                sample => ({labels: {...sample.labels}, value: (sample as CounterSample).value}))};
+        return {name: this.name, help: this.help, type: "histogram", samples: Array.from(this.#samples.values() as Iterable<HistogramSample>, 
+            sample => ({labels: {...sample.labels}, buckets: sample.buckets.map(b => ({...b})), count: sample.count, sum: sample.sum}))};
+    }
+
+    private _sample(labels: Record<string, string>): CounterSample|HistogramSample {
+        const key: string = JSON.stringify(Object.values(labels));
+        let sample = this.#samples.get(key);
+        if (!sample) {
+            sample = this._buckets ? {labels: labels, buckets: [...this._buckets, Infinity].map(le => ({le: le, count: 0})), count: 0, sum: 0} :
+                {labels: labels, value: 0};
+            this.#samples.set(key, sample);
+        }
+        return sample;
+    }
+
+}
+
+/**
+ * Collects metrics from the events of the attached clients.
+ */
+export class MetricsCollector implements MetricsRegistry {
+
+    static readonly #DEFAULT_BUCKETS: ReadonlyArray<Milliseconds> = [5, 10, 25, 50, 100, 250, 500, 1_000, 2_500, 5_000, 10_000];
+    static readonly #DEFAULT_PREFIX = "fetch_client";
+    readonly #route: (endpoint: string, method: string) => string;
+    readonly #requests: Metric;
+    readonly #requestDuration: Metric;
+    readonly #attemptDuration: Metric;
+    readonly #retries: Metric;
+    readonly #timeouts: Metric;
+    readonly #circuitTransitions: Metric;
+    readonly #queueWait: Metric;
+    readonly #bulkheadRejections: Metric;
+    readonly #cache: Metric;
+    readonly #metrics: ReadonlyArray<Metric>;
+
+    constructor(config: MetricsConfig) {
+        const buckets: Array<number> = [...(config.buckets || MetricsCollector.#DEFAULT_BUCKETS)].sort((a, b) => a - b).map(b => b / 1000);
+        if (buckets.length === 0 || !buckets.every(b => b > 0 && isFinite(b)))
+            throw new RangeError("Histogram buckets must be positive numbers, got " + config.buckets);
+        const prefix: string = config.prefix ?? MetricsCollector.#DEFAULT_PREFIX;
+        if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(prefix))
+            throw new Error("Invalid metric name prefix " + prefix);
+        this.#route = config.route || MetricsCollector._defaultRoute;
+        this.#requests = new Metric(prefix + "_requests", "Requests by route and status class of the final response");
+        this.#requestDuration = new Metric(prefix + "_request_duration_seconds", "Duration of requests, including queueing and retries", buckets);
+        this.#attemptDuration = new Metric(prefix + "_attempt_duration_seconds", "Duration of the first and the last attempt of requests", buckets);
+        this.#retries = new Metric(prefix + "_retries", "Retries of failed attempts");
+        this.#timeouts = new Metric(prefix + "_timeouts", "Requests that ran into the per-request or total timeout");
+        this.#circuitTransitions = new Metric(prefix + "_circuit_transitions", "State changes of the circuit breakers");
+        this.#queueWait = new Metric(prefix + "_bulkhead_queue_wait_seconds", "Time requests waited in the bulkhead queue", buckets);
+        this.#bulkheadRejections = new Metric(prefix + "_bulkhead_rejections", "Requests rejected because the bulkhead was full");
+        this.#cache = new Metric(prefix + "_cache_requests", "Requests with a cache key, by cache result");
+        this.#metrics = [this.#requests, this.#requestDuration, this.#attemptDuration, this.#retries, this.#timeouts, this.#circuitTransitions, 
+            this.#queueWait, this.#bulkheadRejections, this.#cache];
+    }
+
+    attach(client: FetchClient): () => void {
+        const labels = (event: {endpoint: string; method: string;}): Record<string, string> => 
+            ({route: this._routeFor(event.endpoint, event.method), method: event.method});
+        const unsubscribe: Array<() => void> = [
+            client.on("complete", event => {
+                const base = labels(event);
+                this.#requests.inc({...base, status: event.status !== undefined ? Math.floor(event.status / 100) + "xx" : "error"});
+                this.#requestDuration.observe(base, event.duration);
+                if (event.firstAttempt !== undefined)
+                    this.#attemptDuration.observe({...base, attempt: "first"}, event.firstAttempt);
+                if (event.lastAttempt !== undefined)
+                    this.#attemptDuration.observe({...base, attempt: "last"}, event.lastAttempt);
+            }),
+            client.on("retry", event => this.#retries.inc(labels(event))),
+            client.on("timeout", event => this.#timeouts.inc({...labels(event), scope: event.scope})),
+            client.on("circuitOpen", event => this.#circuitTransitions.inc({breaker: event.breaker ?? "", state: "open"})),
+            client.on("circuitHalfOpen", event => this.#circuitTransitions.inc({breaker: event.breaker ?? "", state: "halfOpen"})),
+            client.on("circuitClose", event => this.#circuitTransitions.inc({breaker: event.breaker ?? "", state: "closed"})),
+            client.on("bulkheadQueued", event => this.#queueWait.observe(labels(event), event.waited)),
+            client.on("bulkheadRejected", event => this.#bulkheadRejections.inc(labels(event))),
+            client.on("cache", event => this.#cache.inc({...labels(event), result: event.result}))
+        ];
+        return () => unsubscribe.forEach(fn => fn());
+    }
+
+    snapshot(): MetricsSnapshot {
+        return {timestamp: new Date(), metrics: this.#metrics.map(metric => metric.snapshot())};
+    }
+
+    reset(): void {
+        this.#metrics.forEach(metric => metric.reset());
+    }
+
+    private _routeFor(endpoint: string, method: string): string {
+        try {
+            return this.#route(endpoint, method);
+        } catch (_) {  // a faulty route function must not interfere with request processing
+            return MetricsCollector._defaultRoute(endpoint);
+        }
+    }
+
+    private static _defaultRoute(endpoint: string): string {
+        const idx: number = endpoint.search(/[?#]/);
+        return idx >= 0 ? endpoint.substring(0, idx) : endpoint;
+    }
+
+}
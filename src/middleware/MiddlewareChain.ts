@@ -0,0 +1,56 @@
+import { Middleware, MiddlewareCacheContext, MiddlewareContext, MiddlewareRequest } from "../client.js";
+
+/**
+ * Key of the request option by which a caching client passes the cache state to the middleware of its delegate.
+ * Being a symbol, it survives the shallow copies of the request options made by the clients, but is not part of the public API.
+ */
+export const CACHE_CONTEXT: unique symbol = Symbol("cacheContext");
+
+export type CacheContextOption = {[CACHE_CONTEXT]?: MiddlewareCacheContext};
+
+/**
+ * Applies the {@link Middleware} configured for a client to an individual attempt.
+ */
+export class MiddlewareChain {
+
+    readonly #middleware: ReadonlyArray<Middleware>;
+    readonly #reversed: ReadonlyArray<Middleware>;
+
+    constructor(middleware: Array<Middleware>) {
+        this.#middleware = [...middleware];
+        this.#reversed = [...middleware].reverse();
+    }
+
+    /**
+     * @param send sends the request
+     * @param validate throws an error if the response is not acceptable, e.g. due to its status code
+     */
+    async execute(url: string|URL|Request, init: RequestInit, context: MiddlewareContext,
+            send: (url: string|URL|Request, init: RequestInit) => Promise<Response>,
+            validate: (response: Response) => Promise<void>): Promise<Response> {
+        // init may be shared between retries and hedged requests, hence changes must not leak into it
+        let request: MiddlewareRequest = {url: url, method: context.method,
+            headers: new Headers(init.headers ?? (url instanceof Request ? url.headers : undefined)), init: {...init}};
+        for (const middleware of this.#middleware) {
+            if (middleware.beforeRequest)
+                request = (await middleware.beforeRequest(request, context)) || request;
+        }
+        try {
+            let response: Response = await send(request.url, {...request.init, headers: request.headers, signal: init.signal});
+            for (const middleware of this.#reversed) {
+                if (middleware.afterResponse)
+                    response = (await middleware.afterResponse(response, context)) || response;
+            }
+            await validate(response);
+            return response;
+        } catch (e) {
+            for (const middleware of this.#reversed) {
+                const response: Response|void = await middleware.onError?.(e, context);
+                if (response)
+                    return response;
+            }
+            throw e;
+        }
+    }
+
+}
@@ -0,0 +1,226 @@
+import { ConnectivityMonitor, HttpError, isFetchClientError, Logger, Milliseconds, NetworkError, OfflineError, Outbox, OutboxConfig, OutboxEntry, OutboxReplayResult, OutboxStore, QueuedForReplayError,
+    RequestOptions, ResponseErrorCause } from "../client.js";
+
+/**
+ * Keeps the outbox in memory only
+ */
+class MemoryOutboxStore implements OutboxStore {
+
+    readonly #entries: Map<string, OutboxEntry> = new Map();
+
+    load(): Promise<Array<OutboxEntry>> {
+        return Promise.resolve(Array.from(this.#entries.values()));
+    }
+
+    save(entry: OutboxEntry): Promise<unknown> {
+        this.#entries.set(entry.id, entry);
+        return Promise.resolve();
+    }
+
+    delete(id: string): Promise<unknown> {
+        return Promise.resolve(this.#entries.delete(id));
+    }
+
+}
+
+/**
+ * Queues mutations that failed due to a network error, and replays them in order.
+ */
+export class OfflineOutbox implements Outbox {
+
+    static readonly #DEFAULT_METHODS: ReadonlyArray<string> = ["POST", "PUT", "PATCH", "DELETE"];
+    static readonly #DEFAULT_MAX_REPLAYS = 5;
+    static readonly #CONFLICT_CODES: ReadonlyArray<number> = [409, 412];
+    // client errors that may go away when the request is repeated
+    static readonly #TRANSIENT_CLIENT_CODES: ReadonlyArray<number> = [408, 420, 429];
+    // failures indicating that the request has not reached the server, or that the client holds it back; these do not count as failed replays
+    static readonly #UNDELIVERED_KINDS = ["network", "offline", "circuitOpen", "queueFull", "queueTimeout", "retryBudgetExhausted"] as const;
+    static #counter: number = 0;
+    readonly #config: OutboxConfig;
+    readonly #store: OutboxStore;
+    readonly #methods: ReadonlyArray<string>;
+    readonly #onOnline: (() => void)|undefined;
+    readonly #unsubscribe: (() => void)|undefined;
+    // ids of the entries queued by this instance, for detecting entries dropped by the store
+    readonly #queued: Set<string> = new Set();
+    #replay: Promise<OutboxReplayResult>|undefined = undefined;
+
+    /**
+     * @param _send sends a replayed request through the client
+     * @param monitor if provided, replaces the browser's online event as replay trigger
+     * @param _logger receives failures of the store and of replays triggered automatically
+     */
+    constructor(config: OutboxConfig, private readonly _send: (url: string, init: RequestInit&RequestOptions) => Promise<Response>, 
+            monitor?: ConnectivityMonitor, private readonly _logger?: Logger) {
+        this.#config = config;
+        this.#store = config.store || new MemoryOutboxStore();
+        this.#methods = (config.methods || OfflineOutbox.#DEFAULT_METHODS).map(m => m.toUpperCase());
+        if (config.replayOnline !== false && monitor) {
+            this.#unsubscribe = monitor.subscribe(online => {
+                if (online)
+                    this.replay().catch(e => this._logger?.warn("Outbox replay failed", {error: e}));
+            });
+        } else if (config.replayOnline !== false && typeof globalThis.addEventListener === "function") {
+            this.#onOnline = () => this.replay().catch(e => this._logger?.warn("Outbox replay failed", {error: e}));
+            globalThis.addEventListener("online", this.#onOnline);
+        }
+    }
+
+    accepts(method: string): boolean {
+        return this.#methods.indexOf(method) >= 0;
+    }
+
+    /**
+     * Queues the request if it failed due to a network error or because the client is offline, and throws a QueuedForReplayError in this case. Otherwise, the original error is rethrown.
+     */
+    async queueOnNetworkError(url: string, method: string, init: RequestInit|undefined, error: unknown): Promise<never> {
+        if (!(error instanceof NetworkError) && !(error instanceof OfflineError))
+            throw error;
+        let entry: OutboxEntry|undefined = undefined;
+        try {
+            entry = await this._createEntry(url, method, init);
+            if (entry) {
+                await this.#store.save(entry);
+                this.#queued.add(entry.id);
+            }
+        } catch (e) {
+            this._logger?.warn("Failed to queue request for replay", {endpoint: url, method: method, error: e});
+            entry = undefined;
+        }
+        if (!entry)
+            throw error;
+        throw new QueuedForReplayError("Request to " + url + " failed and has been queued for replay", entry, {cause: error});
+    }
+
+    async entries(): Promise<Array<OutboxEntry>> {
+        const entries = await this.#store.load();
+        this._checkDropped(entries);
+        return entries.sort((e1, e2) => e1.id < e2.id ? -1 : e1.id > e2.id ? 1 : 0);
+    }
+
+    replay(): Promise<OutboxReplayResult> {
+        if (!this.#replay)
+            this.#replay = this._replay().finally(() => this.#replay = undefined);
+        return this.#replay;
+    }
+
+    async discard(id: string): Promise<boolean> {
+        const exists = (await this.#store.load()).find(entry => entry.id === id) !== undefined;
+        if (exists)
+            await this._delete(id);
+        return exists;
+    }
+
+    close() {
+        if (this.#onOnline)
+            globalThis.removeEventListener("online", this.#onOnline);
+        this.#unsubscribe?.();
+    }
+
+    private async _replay(): Promise<OutboxReplayResult> {
+        const entries = await this.entries();
+        const result: OutboxReplayResult = {replayed: 0, discarded: 0, remaining: 0};
+        const maxAge: Milliseconds|undefined = this.#config.maxAge;
+        const maxReplays: number = this.#config.maxReplays ?? OfflineOutbox.#DEFAULT_MAX_REPLAYS;
+        for (let idx = 0; idx < entries.length; idx++) {
+            const entry = entries[idx];
+            if (maxAge !== undefined && Date.now() - entry.created > maxAge) {
+                await this._giveUp(entry, new Error("Outbox entry expired"));
+                result.discarded++;
+                continue;
+            }
+            let error: unknown;
+            try {
+                await this._send(entry.url, {method: entry.method, headers: entry.headers, body: entry.body, outbox: false});
+                await this._delete(entry.id);
+                result.replayed++;
+                continue;
+            } catch (e) {
+                error = e;
+            }
+            const status: number|undefined = error instanceof HttpError && error.details.cause === "responseStatus" ?
+                (error.details as ResponseErrorCause).status : undefined;
+            let keep: boolean;
+            if (OfflineOutbox.#UNDELIVERED_KINDS.find(kind => isFetchClientError(error, kind)) || (error as Error)?.name === "AbortError") {
+                keep = true;
+            } else if (status !== undefined && OfflineOutbox.#CONFLICT_CODES.indexOf(status) >= 0) {
+                keep = await this.#config.onConflict?.(entry, error as HttpError) ?? false;
+                if (!keep)
+                    await this._delete(entry.id);
+            } else if (status !== undefined && status < 500 && OfflineOutbox.#TRANSIENT_CLIENT_CODES.indexOf(status) < 0) {
+                await this._giveUp(entry, error);
+                keep = false;
+            } else {
+                entry.replays++;
+                keep = entry.replays < maxReplays;
+                if (keep)
+                    await this.#store.save(entry);
+                else
+                    await this._giveUp(entry, error);
+            }
+            if (keep) {  // preserve the order of requests
+                result.remaining = entries.length - idx;
+                break;
+            }
+            result.discarded++;
+        }
+        return result;
+    }
+
+    private async _giveUp(entry: OutboxEntry, error: unknown) {
+        await this._delete(entry.id);
+        try {
+            this.#config.onGiveUp?.(entry, error);
+        } catch (_) {}
+    }
+
+    private async _delete(id: string) {
+        await this.#store.delete(id);
+        this.#queued.delete(id);
+    }
+
+    /**
+     * Logs the entries queued by this instance which have disappeared from the store without being replayed or discarded,
+     * e.g. because the store has evicted them
+     */
+    private _checkDropped(entries: Array<OutboxEntry>) {
+        if (this.#queued.size === 0)
+            return;
+        const present: Set<string> = new Set(entries.map(entry => entry.id));
+        for (const id of Array.from(this.#queued)) {
+            if (present.has(id))
+                continue;
+            this.#queued.delete(id);
+            this._logger?.warn("Outbox entry dropped by the store", {id: id});
+        }
+    }
+
+    private async _createEntry(url: string, method: string, init: RequestInit|undefined): Promise<OutboxEntry|undefined> {
+        if (init?.body instanceof ReadableStream)
+            return undefined;
+        const headers = new Headers(init?.headers);
+        let body: ArrayBuffer|undefined = undefined;
+        if (init?.body !== undefined && init.body !== null) {
+            // also determines the content type, e.g. including the boundary for multipart form data
+            const serialized = new Response(init.body);
+            const contentType = serialized.headers.get("Content-Type");
+            if (contentType && !headers.has("Content-Type"))
+                headers.set("Content-Type", contentType);
+            body = await serialized.arrayBuffer();
+        }
+        const headerEntries: Array<[string, string]> = [];
+        headers.forEach((value, key) => headerEntries.push([key, value]));
+        const created = Date.now();
+        OfflineOutbox.#counter = (OfflineOutbox.#counter + 1) % 1_000_000;
+        return {
+            id: String(created).padStart(15, "0") + "-" + String(OfflineOutbox.#counter).padStart(6, "0"),
+            method: method,
+            url: url,
+            headers: headerEntries,
+            body: body,
+            created: created,
+            replays: 0
+        };
+    }
+
+}
@@ -0,0 +1,151 @@
+import { TransferProgress } from "../client.js";
+
+/**
+ * Counts the bytes passing through a stream and reports them to a progress callback.
+ */
+export class ProgressTracker {
+
+    static readonly #UPLOAD_CHUNK_SIZE = 64 * 1024;
+    // status codes for which a Response must not have a body
+    static readonly #NULL_BODY_STATUS = [101, 103, 204, 205, 304];
+    static #streamingUploadSupported: boolean|undefined = undefined;
+    // origins which rejected a streaming request body, e.g. because they only support HTTP/1.1
+    static readonly #streamingRejected: Set<string> = new Set();
+    readonly #start: number = Date.now();
+    #loaded: number = 0;
+
+    private constructor(
+        private readonly _callback: (progress: TransferProgress) => void,
+        private readonly _total: number|undefined,
+        private readonly _attempt: number
+    ) {}
+
+    /**
+     * Returns a response whose body reports the download progress when it is read
+     */
+    static trackDownload(response: Response, callback: (progress: TransferProgress) => void, attempt: number): Response {
+        if (!response.body || ProgressTracker.#NULL_BODY_STATUS.indexOf(response.status) >= 0)
+            return response;
+        const length = parseInt(response.headers.get("Content-Length") || "", 10);
+        const tracker = new ProgressTracker(callback, Number.isFinite(length) ? length : undefined, attempt);
+        const tracked = new Response(response.body.pipeThrough(tracker._stream()),
+            {status: response.status, statusText: response.statusText, headers: response.headers});
+        Object.defineProperty(tracked, "url", {value: response.url});
+        Object.defineProperty(tracked, "redirected", {value: response.redirected});
+        return tracked;
+    }
+
+    /**
+     * Sends the request and reports the upload progress. The body is streamed, and the progress reported while fetch reads it, 
+     * if the runtime supports streaming request bodies and the request is not going to be resent. Otherwise, the buffered body
+     * is sent, and the progress is reported when the request starts and when the response arrives. 
+     * A body that is a stream already is always streamed, if supported, since it cannot be buffered.
+     * @param stream false if the request may be resent, e.g. by a retry or a hedged request
+     */
+    static async upload(fetch: (input: string | URL | Request, init?: RequestInit) => Promise<Response>, url: string | URL | Request, init: RequestInit, 
+            callback: (progress: TransferProgress) => void, attempt: number, stream: boolean): Promise<Response> {
+        if (init.body === undefined || init.body === null)
+            return fetch(url, init);
+        const supported: boolean = ProgressTracker._streamingUploadSupported();
+        if (init.body instanceof ReadableStream) {
+            if (!supported)
+                return fetch(url, init);
+            const tracker = new ProgressTracker(callback, undefined, attempt);
+            return fetch(url, {...init, body: init.body.pipeThrough(tracker._stream()), duplex: "half"} as RequestInit);
+        }
+        const headers = new Headers(init.headers);
+        // also determines the content type, e.g. including the boundary for multipart form data
+        const serialized = new Response(init.body);
+        const contentType = serialized.headers.get("Content-Type");
+        if (contentType && !headers.has("Content-Type"))
+            headers.set("Content-Type", contentType);
+        const bytes = new Uint8Array(await serialized.arrayBuffer());
+        const tracker = new ProgressTracker(callback, bytes.byteLength, attempt);
+        const origin: string|undefined = ProgressTracker._origin(url);
+        if (stream && supported && !ProgressTracker.#streamingRejected.has(origin!)) {
+            try {
+                return await fetch(url, {...init, headers: headers, body: tracker._chunked(bytes), duplex: "half"} as RequestInit);
+            } catch (e) {
+                // browsers require HTTP/2 or above for streaming request bodies, and reject the request otherwise, e.g. with
+                // ERR_H2_OR_QUIC_REQUIRED in Chrome, before reading the body; only then is it safe to send the request again
+                if (tracker.#loaded > 0 || init.signal?.aborted || origin === undefined)
+                    throw e;
+                ProgressTracker.#streamingRejected.add(origin);
+            }
+        }
+        tracker._report();
+        const response = await fetch(url, {...init, headers: headers, body: bytes});
+        tracker.#loaded = bytes.byteLength;
+        tracker._report();
+        return response;
+    }
+
+    private _stream(): TransformStream<Uint8Array, Uint8Array> {
+        return new TransformStream({
+            transform: (chunk, controller) => {
+                this.#loaded += chunk.byteLength;
+                this._report();
+                controller.enqueue(chunk);
+            }
+        });
+    }
+
+    private _report() {
+        const elapsed = Date.now() - this.#start;
+        try {
+            this._callback({loaded: this.#loaded, total: this._total, rate: elapsed > 0 ? this.#loaded * 1000 / elapsed : 0, attempt: this._attempt});
+        } catch (_) {}  // callbacks must not interfere with request processing
+    }
+
+    /**
+     * A stream of the bytes which counts them when fetch reads them; the high water mark of 0 prevents chunks from being read ahead
+     */
+    private _chunked(bytes: Uint8Array): ReadableStream<Uint8Array> {
+        let offset = 0;
+        return new ReadableStream({
+            pull: controller => {
+                if (offset >= bytes.byteLength) {
+                    controller.close();
+                    return;
+                }
+                const chunk = bytes.subarray(offset, offset + ProgressTracker.#UPLOAD_CHUNK_SIZE);
+                offset += chunk.byteLength;
+                this.#loaded += chunk.byteLength;
+                this._report();
+                controller.enqueue(chunk);
+            }
+        }, {highWaterMark: 0});
+    }
+
+    private static _origin(url: string | URL | Request): string|undefined {
+        try {
+            return new URL(url instanceof Request ? url.url : url, globalThis.location?.href).origin;
+        } catch (_) {
+            return undefined;
+        }
+    }
+
+    /**
+     * See https://developer.chrome.com/docs/capabilities/web-apis/fetch-streaming-requests#feature_detection
+     */
+    private static _streamingUploadSupported(): boolean {
+        if (ProgressTracker.#streamingUploadSupported === undefined) {
+            let duplexAccessed = false;
+            try {
+                const hasContentType = new Request("http://localhost", {
+                    body: new ReadableStream(),
+                    method: "POST",
+                    get duplex() {
+                        duplexAccessed = true;
+                        return "half";
+                    }
+                } as RequestInit).headers.has("Content-Type");
+                ProgressTracker.#streamingUploadSupported = duplexAccessed && !hasContentType;
+            } catch (_) {
+                ProgressTracker.#streamingUploadSupported = false;
+            }
+        }
+        return ProgressTracker.#streamingUploadSupported;
+    }
+
+}
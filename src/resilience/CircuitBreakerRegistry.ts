@@ -0,0 +1,197 @@
+import { CircuitBreakerPolicy, CircuitState } from "cockatiel";
+import { CircuitBreakerConfig, CircuitBreakerState, CircuitBreakerStore, Logger, Milliseconds, ScopedCircuitBreakerConfig } from "../client.js";
+
+/**
+ * A circuit breaker together with the key it is registered under.
+ */
+export interface KeyedCircuitBreaker {
+    key: string;
+    breaker: CircuitBreakerPolicy;
+}
+
+interface BreakerEntry extends KeyedCircuitBreaker {
+    config: CircuitBreakerConfig;
+    lastUsed: number;
+    isolation?: {dispose: () => void};
+}
+
+/**
+ * Manages the circuit breakers of a client. Depending on the configuration, there is either a single breaker 
+ * for all requests, or breakers are created lazily per origin, path prefix or custom key. Idle breakers in the
+ * closed state are removed again, so that the number of breakers does not grow without bounds.
+ */
+export class CircuitBreakerRegistry {
+
+    static readonly #CLIENT_KEY = "";
+    static readonly #DEFAULT_IDLE_TIMEOUT: Milliseconds = 300_000;
+    readonly #config: ScopedCircuitBreakerConfig|undefined;
+    readonly #defaultConfig: CircuitBreakerConfig|undefined;
+    // ordered by length, longest first
+    readonly #prefixes: Array<string>;
+    readonly #idleTimeout: Milliseconds;
+    readonly #breakers: Map<string, BreakerEntry> = new Map();
+    // persisted states of breakers not created yet
+    readonly #initialStates: Map<string, unknown> = new Map();
+    #lastCleanup: number = Date.now();
+
+    constructor(
+            config: CircuitBreakerConfig|ScopedCircuitBreakerConfig,
+            private readonly _factory: (key: string, config: CircuitBreakerConfig, initialState?: unknown) => CircuitBreakerPolicy,
+            private readonly _store?: CircuitBreakerStore,
+            private readonly _logger?: Logger
+        ) {
+        const scoped: boolean = CircuitBreakerRegistry.isScoped(config);
+        this.#config = scoped ? config as ScopedCircuitBreakerConfig : undefined;
+        this.#defaultConfig = scoped ? this.#config!.default : config as CircuitBreakerConfig;
+        this.#prefixes = this.#config?.scope === "pathPrefix" ? Object.keys(this.#config.breakers || {}).sort((a, b) => b.length - a.length) : [];
+        this.#idleTimeout = this.#config?.idleTimeout! > 0 ? this.#config!.idleTimeout! : CircuitBreakerRegistry.#DEFAULT_IDLE_TIMEOUT;
+        const allConfigs = [this.#defaultConfig, ...Object.values(this.#config?.breakers || {})].filter(c => c) as Array<CircuitBreakerConfig>;
+        const invalid = allConfigs.find(c => !(c.openAfterFailedAttempts! > 0) && !c.failureRate);
+        if (invalid)
+            throw new Error("Circuit breaker config requires either openAfterFailedAttempts or failureRate: " + JSON.stringify(invalid));
+    }
+
+    static isScoped(config: CircuitBreakerConfig|ScopedCircuitBreakerConfig): boolean {
+        return "scope" in config && config.scope !== undefined;
+    }
+
+    /**
+     * Load the persisted breaker states from the store, if configured. Must be called before the first request.
+     * Failures to load the state are logged only, the breakers start in the closed state then.
+     */
+    async restore(): Promise<unknown> {
+        if (!this._store)
+            return;
+        try {
+            const states: Record<string, unknown> = await this._store.load() || {};
+            for (const [key, state] of Object.entries(states)) {
+                if (state !== undefined && !this.#breakers.has(key))
+                    this.#initialStates.set(key, state);
+            }
+        } catch (e) {
+            this._logger?.warn("Failed to restore circuit breaker states", {error: e});
+        }
+    }
+
+    /**
+     * Returns the circuit breaker responsible for a request, or undefined if the request is not subject to any breaker.
+     */
+    breakerFor(url: string, method: string): KeyedCircuitBreaker|undefined {
+        const now = Date.now();
+        if (now - this.#lastCleanup > this.#idleTimeout)
+            this._cleanup(now);
+        const key: string|undefined = this._keyFor(url, method);
+        if (key === undefined)
+            return undefined;
+        const entry = this._entry(key, true);
+        if (entry)
+            entry.lastUsed = now;
+        return entry;
+    }
+
+    state(key?: string): CircuitBreakerState|undefined {
+        const entry = this._entry(this._normalizeKey(key), true);
+        if (!entry)
+            return undefined;
+        switch (entry.breaker.state) {
+        case CircuitState.Closed:
+            return {state: "closed"};
+        case CircuitState.HalfOpen:
+            return {state: "halfOpen"};
+        case CircuitState.Isolated:
+            return {state: "isolated"};
+        case CircuitState.Open:
+            const openedAt: number|undefined = (entry.breaker.toJSON() as {ownState?: {openedAt?: number}})?.ownState?.openedAt;
+            return {state: "open", nextAttempt: openedAt !== undefined ? new Date(openedAt + entry.config.halfOpenAfter) : undefined};
+        }
+    }
+
+    isolate(key?: string): boolean {
+        const entry = this._entry(this._normalizeKey(key), true);
+        if (!entry)
+            return false;
+        if (!entry.isolation)
+            entry.isolation = entry.breaker.isolate();
+        return true;
+    }
+
+    /**
+     * Replaces the breaker by a new one in the closed state.
+     */
+    reset(key?: string): boolean {
+        key = this._normalizeKey(key);
+        this.#initialStates.delete(key);
+        const entry = this.#breakers.get(key);
+        if (!entry)
+            return this.#config?.breakers?.[key] !== undefined || this.#defaultConfig !== undefined;
+        // the old breaker is discarded, including a potential isolation, and only used by requests that are already running
+        this.#breakers.delete(key);
+        const newEntry = this._entry(key, true)!;
+        this._store?.save(key, newEntry.breaker.toJSON())?.catch(e => this._logPersistError(key, e));
+        return true;
+    }
+
+    private _logPersistError(key: string, error: unknown) {
+        this._logger?.warn("Failed to persist circuit breaker state", {breaker: key, error: error});
+    }
+
+    private _entry(key: string, create: boolean): BreakerEntry|undefined {
+        let entry = this.#breakers.get(key);
+        if (!entry && create) {
+            const config = this.#config?.breakers?.[key] || this.#defaultConfig;
+            if (!config)
+                return undefined;
+            const initialState = this.#initialStates.get(key);
+            this.#initialStates.delete(key);
+            let breaker: CircuitBreakerPolicy;
+            try {
+                breaker = this._factory(key, config, initialState);
+            } catch (e) {
+                if (initialState === undefined)
+                    throw e;
+                breaker = this._factory(key, config);  // incompatible persisted state
+            }
+            if (this._store)
+                breaker.onStateChange(() => this._store!.save(key, breaker.toJSON())?.catch(e => this._logPersistError(key, e)));
+            entry = {key: key, breaker: breaker, config: config, lastUsed: Date.now()};
+            this.#breakers.set(key, entry);
+        }
+        return entry;
+    }
+
+    private _normalizeKey(key?: string): string {
+        return this.#config && key !== undefined ? key : CircuitBreakerRegistry.#CLIENT_KEY;
+    }
+
+    private _keyFor(url: string, method: string): string|undefined {
+        const scope = this.#config?.scope;
+        if (!scope)
+            return CircuitBreakerRegistry.#CLIENT_KEY;
+        if (typeof scope === "function")
+            return scope(url, method);
+        const parsed: URL|undefined = CircuitBreakerRegistry._parseUrl(url);
+        if (scope === "origin")
+            return parsed?.origin ?? CircuitBreakerRegistry.#CLIENT_KEY;
+        // scope === "pathPrefix"
+        const path: string = parsed?.pathname ?? url;
+        return this.#prefixes.find(prefix => path.startsWith(prefix)) ?? (this.#defaultConfig ? CircuitBreakerRegistry.#CLIENT_KEY : undefined);
+    }
+
+    private _cleanup(now: number) {
+        this.#lastCleanup = now;
+        for (const [key, entry] of Array.from(this.#breakers.entries())) {
+            // open or isolated breakers keep their state
+            if (now - entry.lastUsed > this.#idleTimeout && entry.breaker.state === CircuitState.Closed)
+                this.#breakers.delete(key);
+        }
+    }
+
+    private static _parseUrl(url: string): URL|undefined {
+        try {
+            return new URL(url, globalThis.location?.href);
+        } catch (_) {
+            return undefined;
+        }
+    }
+
+}
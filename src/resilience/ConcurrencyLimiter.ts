@@ -0,0 +1,211 @@
+import { AdaptiveConcurrencyConfig, ConcurrencyState, Milliseconds, QueueFullError, QueuePriority, QueueTimeoutError } from "../client.js";
+
+export interface QueueOptions {
+    priority?: QueuePriority;
+    /**
+     * Maximum time to wait in the queue
+     */
+    maxWait?: Milliseconds;
+    /**
+     * Called when a queued request leaves the queue to be executed
+     */
+    onDequeued?: (waited: Milliseconds) => void;
+}
+
+interface QueueItem {
+    signal: AbortSignal;
+    rank: number;
+    start: number;
+    // executes the queued function once a slot is available, and settles the caller's promise with its result
+    run: () => void;
+    reject: (reason: unknown) => void;
+    onAbort: () => void;
+    onDequeued?: (waited: Milliseconds) => void;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Decides on the new concurrency limit after a request completed.
+ */
+interface LimitAlgorithm {
+    /**
+     * @param limit the current limit
+     * @param rtt round trip time of the request
+     * @param inFlight number of requests in flight when the request completed, including the request itself
+     * @param dropped true if the request failed in a way indicating an overload, such as a timeout
+     */
+    update(limit: number, rtt: Milliseconds, inFlight: number, dropped: boolean): number;
+}
+
+/**
+ * Additive increase, multiplicative decrease: the limit grows by one for every successful request,
+ * and shrinks by the backoff ratio when a request is dropped or exceeds the latency threshold.
+ */
+class AimdAlgorithm implements LimitAlgorithm {
+
+    constructor(private readonly _backoffRatio: number, private readonly _latencyThreshold: Milliseconds|undefined) {}
+
+    update(limit: number, rtt: Milliseconds, inFlight: number, dropped: boolean): number {
+        if (dropped || (this._latencyThreshold !== undefined && rtt > this._latencyThreshold))
+            return limit * this._backoffRatio;
+        // do not grow the limit if it is not even used
+        if (inFlight * 2 >= limit)
+            return limit + 1;
+        return limit;
+    }
+
+}
+
+/**
+ * Similar to TCP Vegas: the queue size at the server is estimated from the ratio of the minimum round trip time
+ * observed to the current one. The limit grows as long as the estimated queue is small, and shrinks when it gets long.
+ */
+class VegasAlgorithm implements LimitAlgorithm {
+
+    #minRtt: Milliseconds = Infinity;
+
+    constructor(private readonly _backoffRatio: number) {}
+
+    update(limit: number, rtt: Milliseconds, inFlight: number, dropped: boolean): number {
+        if (dropped)
+            return limit * this._backoffRatio;
+        this.#minRtt = Math.min(this.#minRtt, Math.max(rtt, 1));
+        const step = Math.max(1, Math.log10(limit));
+        const queueSize = Math.ceil(limit * (1 - this.#minRtt / Math.max(rtt, 1)));
+        if (queueSize <= 3 * step)
+            return inFlight * 2 >= limit ? limit + step : limit;
+        if (queueSize >= 6 * step)
+            return limit - step;
+        return limit;
+    }
+
+}
+
+/**
+ * A bulkhead whose concurrency limit can adapt to the observed latencies and errors. It rejects requests 
+ * with a QueueFullError if the queue is full. Queued requests are served by priority, 
+ * and in FIFO order within the same priority.
+ */
+export class ConcurrencyLimiter {
+
+    static readonly #PRIORITY_RANKS: Record<QueuePriority, number> = {critical: 0, normal: 1, background: 2};
+    // ordered by priority
+    readonly #queue: Array<QueueItem> = [];
+    readonly #algorithm: LimitAlgorithm|undefined;
+    readonly #minLimit: number;
+    readonly #maxLimit: number;
+    #limit: number;
+    #inFlight: number = 0;
+
+    /**
+     * @param isDropped decides whether a failed request indicates an overload
+     */
+    constructor(
+            initialLimit: number,
+            private readonly _maxQueued: number,
+            adaptive: AdaptiveConcurrencyConfig|undefined,
+            private readonly _isDropped: (error: unknown) => boolean
+        ) {
+        this.#minLimit = adaptive?.minLimit ?? 1;
+        this.#maxLimit = adaptive?.maxLimit ?? Math.max(initialLimit, 200);
+        if (!(this.#minLimit >= 1) || !(this.#maxLimit >= this.#minLimit))
+            throw new RangeError("Invalid concurrency limits, min: " + this.#minLimit + ", max: " + this.#maxLimit);
+        this.#limit = adaptive ? Math.min(this.#maxLimit, Math.max(this.#minLimit, initialLimit)) : initialLimit;
+        const backoffRatio = adaptive?.backoffRatio ?? 0.9;
+        if (adaptive && !(backoffRatio > 0 && backoffRatio < 1))
+            throw new RangeError("Backoff ratio must be between 0 and 1, got " + backoffRatio);
+        this.#algorithm = !adaptive ? undefined : adaptive.algorithm === "vegas" ? new VegasAlgorithm(backoffRatio) :
+            new AimdAlgorithm(backoffRatio, adaptive.latencyThreshold);
+    }
+
+    state(): ConcurrencyState {
+        return {limit: Math.floor(this.#limit), inFlight: this.#inFlight, queued: this.#queue.length};
+    }
+
+    execute<T>(fn: (signal: AbortSignal) => Promise<T>, signal: AbortSignal, options?: QueueOptions): Promise<T> {
+        if (signal.aborted)
+            return Promise.reject(ConcurrencyLimiter._abortReason(signal));
+        if (this.#inFlight < Math.floor(this.#limit))
+            return this._run(fn, signal);
+        if (this.#queue.length >= this._maxQueued)
+            return Promise.reject(new QueueFullError("Bulkhead capacity exceeded (" + Math.floor(this.#limit) + " execution slots, " + this._maxQueued + " queue slots)"));
+        return new Promise((resolve, reject) => {
+            const remove = () => {
+                const idx = this.#queue.indexOf(item);
+                if (idx >= 0)
+                    this.#queue.splice(idx, 1);
+                globalThis.clearTimeout(item.timer);
+                signal.removeEventListener("abort", item.onAbort);
+            };
+            const item: QueueItem = {signal: signal, rank: ConcurrencyLimiter.#PRIORITY_RANKS[options?.priority || "normal"] ?? 1, 
+                start: Date.now(), run: () => this._run(fn, signal).then(resolve, reject), reject: reject, onDequeued: options?.onDequeued, onAbort: () => {
+                    remove();
+                    reject(ConcurrencyLimiter._abortReason(signal));
+                }
+            };
+            if (options?.maxWait !== undefined) {
+                item.timer = globalThis.setTimeout(() => {
+                    remove();
+                    reject(new QueueTimeoutError("Request could not be scheduled within " + options.maxWait + "ms", Date.now() - item.start));
+                }, options.maxWait);
+            }
+            signal.addEventListener("abort", item.onAbort, {once: true});
+            const idx = this.#queue.findIndex(other => other.rank > item.rank);
+            this.#queue.splice(idx >= 0 ? idx : this.#queue.length, 0, item);
+        });
+    }
+
+    /**
+     * Rejects all requests currently waiting in the queue
+     * @returns the number of rejected requests
+     */
+    rejectQueued(reason: unknown): number {
+        const items = this.#queue.splice(0, this.#queue.length);
+        for (const item of items) {
+            item.signal.removeEventListener("abort", item.onAbort);
+            globalThis.clearTimeout(item.timer);
+            item.reject(reason);
+        }
+        return items.length;
+    }
+
+    private async _run<T>(fn: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T> {
+        this.#inFlight++;
+        const start = Date.now();
+        try {
+            const result = await fn(signal);
+            this._update(Date.now() - start, false);
+            return result;
+        } catch (e) {
+            if (!signal.aborted && this._isDropped(e))
+                this._update(Date.now() - start, true);
+            throw e;
+        } finally {
+            this.#inFlight--;
+            this._dequeue();
+        }
+    }
+
+    // like standard fetch, an aborted request fails with the abort reason
+    private static _abortReason(signal: AbortSignal): unknown {
+        return signal.reason ?? new DOMException("The operation was aborted", "AbortError");
+    }
+
+    private _update(rtt: Milliseconds, dropped: boolean) {
+        if (!this.#algorithm)
+            return;
+        const limit = this.#algorithm.update(this.#limit, rtt, this.#inFlight, dropped);
+        this.#limit = Math.min(this.#maxLimit, Math.max(this.#minLimit, limit));
+    }
+
+    private _dequeue() {
+        while (this.#queue.length > 0 && this.#inFlight < Math.floor(this.#limit)) {
+            const item = this.#queue.shift()!;
+            item.signal.removeEventListener("abort", item.onAbort);
+            globalThis.clearTimeout(item.timer);
+            item.onDequeued?.(Date.now() - item.start);
+            item.run();
+        }
+    }
+
+}
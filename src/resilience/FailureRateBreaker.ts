@@ -0,0 +1,81 @@
+import { CircuitState, IBreaker } from "cockatiel";
+import { FailureRateConfig, Milliseconds } from "../client.js";
+
+interface Bucket {
+    start: number;
+    failures: number;
+    successes: number;
+}
+
+/**
+ * A breaker that opens when the ratio of failed requests within a sliding time window exceeds a threshold.
+ * The window is divided into buckets, which are discarded as a whole once they have left the window.
+ */
+export class FailureRateBreaker implements IBreaker {
+
+    static readonly #NUM_BUCKETS = 10;
+    static readonly #DEFAULT_MINIMUM_THROUGHPUT = 10;
+    readonly #threshold: number;
+    readonly #duration: Milliseconds;
+    readonly #bucketSize: Milliseconds;
+    readonly #minimumThroughput: number;
+    #buckets: Array<Bucket> = [];
+
+    constructor(config: FailureRateConfig) {
+        if (!(config.threshold > 0 && config.threshold < 1))
+            throw new RangeError("Failure rate threshold must be between 0 and 1, got " + config.threshold);
+        if (!(config.duration > 0))
+            throw new RangeError("Failure rate duration must be positive, got " + config.duration);
+        this.#threshold = config.threshold;
+        this.#duration = config.duration;
+        this.#bucketSize = config.duration / FailureRateBreaker.#NUM_BUCKETS;
+        this.#minimumThroughput = config.minimumThroughput! > 0 ? config.minimumThroughput! : FailureRateBreaker.#DEFAULT_MINIMUM_THROUGHPUT;
+    }
+
+    get state(): unknown {
+        return {buckets: this.#buckets.map(b => ({...b}))};
+    }
+
+    set state(value: unknown) {
+        const buckets = (value as {buckets?: Array<Bucket>})?.buckets;
+        this.#buckets = Array.isArray(buckets) ? buckets.map(b => ({...b})) : [];
+    }
+
+    success(state: CircuitState): void {
+        if (state === CircuitState.HalfOpen)
+            this.#buckets = [];
+        this._push(true);
+    }
+
+    failure(state: CircuitState): boolean {
+        this._push(false);
+        if (state !== CircuitState.Closed)
+            return true;
+        let failures = 0;
+        let total = 0;
+        for (const bucket of this.#buckets) {
+            failures += bucket.failures;
+            total += bucket.failures + bucket.successes;
+        }
+        if (total < this.#minimumThroughput)
+            return false;
+        return failures > this.#threshold * total;
+    }
+
+    private _push(success: boolean) {
+        const now = Date.now();
+        const windowStart = now - this.#duration;
+        while (this.#buckets.length > 0 && this.#buckets[0].start <= windowStart)
+            this.#buckets.shift();
+        let bucket: Bucket|undefined = this.#buckets[this.#buckets.length - 1];
+        if (!bucket || now - bucket.start >= this.#bucketSize) {
+            bucket = {start: now, failures: 0, successes: 0};
+            this.#buckets.push(bucket);
+        }
+        if (success)
+            bucket.successes++;
+        else
+            bucket.failures++;
+    }
+
+}
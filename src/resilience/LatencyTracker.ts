@@ -0,0 +1,36 @@
+import { Milliseconds } from "../client.js";
+
+/**
+ * Keeps the latencies of the most recent successful requests in a ring buffer, for calculating percentiles.
+ */
+export class LatencyTracker {
+
+    readonly #samples: Array<Milliseconds> = [];
+    #next: number = 0;
+
+    constructor(
+        private readonly _maxSamples: number = 100,
+        private readonly _minSamples: number = 10
+    ) {}
+
+    record(latency: Milliseconds) {
+        if (this.#samples.length < this._maxSamples)
+            this.#samples.push(latency);
+        else
+            this.#samples[this.#next] = latency;
+        this.#next = (this.#next + 1) % this._maxSamples;
+    }
+
+    /**
+     * @param percentile between 0 and 100
+     * @returns undefined if not enough samples have been recorded yet
+     */
+    percentile(percentile: number): Milliseconds|undefined {
+        if (this.#samples.length < this._minSamples)
+            return undefined;
+        const sorted = [...this.#samples].sort((a, b) => a - b);
+        const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil(percentile / 100 * sorted.length) - 1));
+        return sorted[idx];
+    }
+
+}
@@ -0,0 +1,204 @@
+import { Milliseconds, RateLimitConfig } from "../client.js";
+
+interface Waiter {
+    resolve: (waited: Milliseconds) => void;
+    reject: (reason: unknown) => void;
+    signal: AbortSignal;
+    onAbort: () => void;
+    start: number;
+}
+
+/**
+ * A token bucket, refilled continuously at a static rate, and/or adapted from the RateLimit headers reported by the server.
+ * Requests that cannot be served immediately are queued in FIFO order.
+ */
+export class TokenBucket {
+
+    readonly #capacity: number;
+    // tokens per millisecond
+    readonly #refillRate: number;
+    #tokens: number;
+    #lastRefill: number = Date.now();
+    // set while the server has announced a quota window; no continuous refill happens in this case
+    #resetAt: number|undefined = undefined;
+    #resetTokens: number = 0;
+    readonly #waiters: Array<Waiter> = [];
+    #timer: ReturnType<typeof setTimeout>|undefined = undefined;
+
+    /**
+     * @param limit undefined for an unlimited bucket, which only becomes limited once the server reports its quota
+     */
+    constructor(limit: number|undefined, interval: Milliseconds) {
+        this.#capacity = limit ?? Infinity;
+        this.#refillRate = limit !== undefined ? limit / interval : 0;
+        this.#tokens = this.#capacity;
+    }
+
+    /**
+     * Resolves with the time waited once a token is available. Rejects with the abort reason if the signal is aborted first.
+     */
+    acquire(signal: AbortSignal): Promise<Milliseconds> {
+        if (signal.aborted)
+            return Promise.reject(signal.reason);
+        if (this.#waiters.length === 0 && this._tryTake(Date.now()))
+            return Promise.resolve(0);
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = {resolve: resolve, reject: reject, signal: signal, start: Date.now(), onAbort: () => {
+                const idx = this.#waiters.indexOf(waiter);
+                if (idx >= 0)
+                    this.#waiters.splice(idx, 1);
+                if (this.#waiters.length === 0)
+                    this._clearTimer();
+                reject(signal.reason);
+            }};
+            signal.addEventListener("abort", waiter.onAbort, {once: true});
+            this.#waiters.push(waiter);
+            this._schedule();
+        });
+    }
+
+    /**
+     * Adapt to the quota reported by the server
+     * @param limit the number of requests available after the reset
+     * @param remaining the number of requests remaining in the current window
+     * @param reset time until the window resets
+     */
+    update(limit: number|undefined, remaining: number, reset: Milliseconds) {
+        const now = Date.now();
+        this._refill(now);
+        this.#tokens = Math.min(this.#tokens, remaining);
+        this.#resetAt = now + reset;
+        this.#resetTokens = Math.min(limit ?? Infinity, this.#capacity);
+        if (this.#waiters.length > 0) {
+            this._clearTimer();
+            this._schedule();
+        }
+    }
+
+    idle(): boolean {
+        this._refill(Date.now());
+        return this.#waiters.length === 0 && this.#tokens >= this.#capacity;
+    }
+
+    private _refill(now: number) {
+        if (this.#resetAt !== undefined) {
+            if (now < this.#resetAt)
+                return;
+            this.#tokens = Math.max(this.#tokens, this.#resetTokens);
+            this.#resetAt = undefined;
+            this.#lastRefill = now;
+            if (this.#refillRate === 0)  // no static limit, hence unlimited until the server reports a new quota
+                this.#tokens = Infinity;
+        }
+        if (this.#refillRate > 0)
+            this.#tokens = Math.min(this.#capacity, this.#tokens + (now - this.#lastRefill) * this.#refillRate);
+        this.#lastRefill = now;
+    }
+
+    private _tryTake(now: number): boolean {
+        this._refill(now);
+        if (this.#tokens < 1)
+            return false;
+        this.#tokens -= 1;
+        return true;
+    }
+
+    private _schedule() {
+        if (this.#timer !== undefined || this.#waiters.length === 0)
+            return;
+        const now = Date.now();
+        const delay: Milliseconds = this.#resetAt !== undefined ? this.#resetAt - now :
+            this.#refillRate > 0 ? (1 - this.#tokens) / this.#refillRate : 0;
+        this.#timer = globalThis.setTimeout(() => this._process(), Math.max(0, Math.ceil(delay)));
+    }
+
+    private _process() {
+        this.#timer = undefined;
+        const now = Date.now();
+        while (this.#waiters.length > 0 && this._tryTake(now)) {
+            const waiter = this.#waiters.shift()!;
+            waiter.signal.removeEventListener("abort", waiter.onAbort);
+            waiter.resolve(now - waiter.start);
+        }
+        this._schedule();
+    }
+
+    private _clearTimer() {
+        if (this.#timer !== undefined)
+            globalThis.clearTimeout(this.#timer);
+        this.#timer = undefined;
+    }
+
+}
+
+/**
+ * Manages the token buckets of a client, per origin, per endpoint or per custom key.
+ */
+export class RateLimiter {
+
+    static readonly #DEFAULT_INTERVAL: Milliseconds = 1_000;
+    // idle buckets are removed once this number of buckets is exceeded
+    static readonly #MAX_BUCKETS = 1_000;
+    readonly #config: RateLimitConfig;
+    readonly #buckets: Map<string, TokenBucket> = new Map();
+
+    constructor(config: RateLimitConfig) {
+        if (config.limit !== undefined && !(config.limit > 0))
+            throw new RangeError("Rate limit must be positive, got " + config.limit);
+        if (config.limit === undefined && config.adaptive === false)
+            throw new Error("Rate limit config requires either a limit or adaptive mode");
+        this.#config = config;
+    }
+
+    /**
+     * Returns the key of the bucket responsible for a request, or undefined if the request is not rate limited.
+     */
+    keyFor(url: string, method: string): string|undefined {
+        const scope = this.#config.scope;
+        if (typeof scope === "function")
+            return scope(url, method);
+        try {
+            const parsed = new URL(url, globalThis.location?.href);
+            return scope === "endpoint" ? parsed.origin + parsed.pathname : parsed.origin;
+        } catch (_) {
+            return url;
+        }
+    }
+
+    acquire(key: string, signal: AbortSignal): Promise<Milliseconds> {
+        return this._bucket(key).acquire(signal);
+    }
+
+    /**
+     * Adapt the bucket to the RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset response headers, if present.
+     */
+    update(key: string, headers: Headers|undefined) {
+        if (this.#config.adaptive === false || !headers)
+            return;
+        const remaining = parseInt(headers.get("RateLimit-Remaining") || "", 10);
+        const reset = parseFloat(headers.get("RateLimit-Reset") || "");
+        if (!Number.isFinite(remaining) || !Number.isFinite(reset))
+            return;
+        const limit = parseInt(headers.get("RateLimit-Limit") || "", 10);
+        this._bucket(key).update(Number.isFinite(limit) ? limit : undefined, remaining, reset * 1000);
+    }
+
+    private _bucket(key: string): TokenBucket {
+        let bucket = this.#buckets.get(key);
+        if (!bucket) {
+            if (this.#buckets.size >= RateLimiter.#MAX_BUCKETS)
+                this._cleanup();
+            bucket = new TokenBucket(this.#config.limit, this.#config.interval! > 0 ? this.#config.interval! : RateLimiter.#DEFAULT_INTERVAL);
+            this.#buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
+    private _cleanup() {
+        for (const [key, bucket] of [...this.#buckets.entries()]) {
+            if (bucket.idle())
+                this.#buckets.delete(key);
+        }
+    }
+
+}
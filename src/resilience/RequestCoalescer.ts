@@ -0,0 +1,90 @@
+import { CoalescingConfig } from "../client.js";
+
+interface Subscriber {
+    resolve: (response: Response) => void;
+    reject: (reason: unknown) => void;
+    signal: AbortSignal;
+    onAbort: () => void;
+}
+
+interface SharedRequest {
+    controller: AbortController;
+    subscribers: Set<Subscriber>;
+}
+
+/**
+ * Lets concurrent identical requests share a single underlying request. The shared request is reference counted:
+ * it is aborted only once all of its callers have aborted.
+ */
+export class RequestCoalescer {
+
+    static readonly #DEFAULT_METHODS: ReadonlyArray<string> = ["GET", "HEAD"];
+    static readonly #DEFAULT_HEADERS: ReadonlyArray<string> = ["Accept", "Authorization"];
+    readonly #methods: ReadonlyArray<string>;
+    readonly #headers: ReadonlyArray<string>;
+    readonly #inFlight: Map<string, SharedRequest> = new Map();
+
+    constructor(config: CoalescingConfig) {
+        this.#methods = (config.methods || RequestCoalescer.#DEFAULT_METHODS).map(m => m.toUpperCase());
+        this.#headers = config.headers || RequestCoalescer.#DEFAULT_HEADERS;
+    }
+
+    /**
+     * Returns the key identifying identical requests, or undefined if the request must not be coalesced.
+     */
+    keyFor(method: string, url: string, headers: Headers): string|undefined {
+        if (this.#methods.indexOf(method) < 0)
+            return undefined;
+        return JSON.stringify([method, url, ...this.#headers.map(h => headers.get(h))]);
+    }
+
+    /**
+     * @param fn starts the shared request; only called if no identical request is in flight
+     */
+    execute(key: string, signal: AbortSignal, fn: (signal: AbortSignal) => Promise<Response>): Promise<Response> {
+        if (signal.aborted)
+            return Promise.reject(signal.reason);
+        let shared = this.#inFlight.get(key);
+        if (!shared) {
+            const newShared: SharedRequest = {controller: new AbortController(), subscribers: new Set()};
+            this.#inFlight.set(key, newShared);
+            Promise.resolve().then(() => fn(newShared.controller.signal)).then(response => {
+                const subscribers = this._settle(key, newShared);
+                if (subscribers.length === 1) {
+                    subscribers[0].resolve(response);
+                    return;
+                }
+                subscribers.forEach(subscriber => subscriber.resolve(response.clone()));
+                response.body?.cancel().catch(() => undefined);
+            }, error => this._settle(key, newShared).forEach(subscriber => subscriber.reject(error)));
+            shared = newShared;
+        }
+        const request: SharedRequest = shared;
+        return new Promise((resolve, reject) => {
+            const subscriber: Subscriber = {resolve: resolve, reject: reject, signal: signal, onAbort: () => {
+                request.subscribers.delete(subscriber);
+                reject(signal.reason);
+                if (request.subscribers.size === 0) {
+                    if (this.#inFlight.get(key) === request)
+                        this.#inFlight.delete(key);
+                    request.controller.abort(signal.reason);
+                }
+            }};
+            signal.addEventListener("abort", subscriber.onAbort, {once: true});
+            request.subscribers.add(subscriber);
+        });
+    }
+
+    /**
+     * Removes the shared request and returns its remaining subscribers
+     */
+    private _settle(key: string, request: SharedRequest): Array<Subscriber> {
+        if (this.#inFlight.get(key) === request)
+            this.#inFlight.delete(key);
+        const subscribers = Array.from(request.subscribers);
+        subscribers.forEach(subscriber => subscriber.signal.removeEventListener("abort", subscriber.onAbort));
+        request.subscribers.clear();
+        return subscribers;
+    }
+
+}
@@ -0,0 +1,70 @@
+import { RetryBudgetConfig } from "../client.js";
+
+/**
+ * A token bucket limiting the ratio of retries to requests. Every request deposits a fraction of a token, 
+ * every retry withdraws a full token.
+ */
+export class RetryBudget {
+
+    readonly #ratio: number;
+    readonly #maxTokens: number;
+    #tokens: number;
+
+    constructor(ratio: number, maxTokens: number) {
+        this.#ratio = ratio;
+        this.#maxTokens = maxTokens;
+        this.#tokens = maxTokens;
+    }
+
+    deposit() {
+        this.#tokens = Math.min(this.#maxTokens, this.#tokens + this.#ratio);
+    }
+
+    withdraw(): boolean {
+        if (this.#tokens < 1)
+            return false;
+        this.#tokens -= 1;
+        return true;
+    }
+
+}
+
+/**
+ * Retry budgets of a client, either a single one or one per origin.
+ */
+export class RetryBudgets {
+
+    static readonly #DEFAULT_RATIO = 0.2;
+    static readonly #DEFAULT_MAX_TOKENS = 10;
+    readonly #ratio: number;
+    readonly #maxTokens: number;
+    readonly #perOrigin: boolean;
+    readonly #budgets: Map<string, RetryBudget> = new Map();
+
+    constructor(config: RetryBudgetConfig) {
+        this.#ratio = config.ratio !== undefined ? config.ratio : RetryBudgets.#DEFAULT_RATIO;
+        this.#maxTokens = config.maxTokens !== undefined ? config.maxTokens : RetryBudgets.#DEFAULT_MAX_TOKENS;
+        if (!(this.#ratio >= 0) || !(this.#maxTokens >= 0))
+            throw new RangeError("Retry budget ratio and maxTokens must be non-negative, got " + this.#ratio + ", " + this.#maxTokens);
+        this.#perOrigin = config.scope === "origin";
+    }
+
+    budgetFor(url: string): RetryBudget {
+        const key: string = this.#perOrigin ? RetryBudgets._origin(url) : "";
+        let budget = this.#budgets.get(key);
+        if (!budget) {
+            budget = new RetryBudget(this.#ratio, this.#maxTokens);
+            this.#budgets.set(key, budget);
+        }
+        return budget;
+    }
+
+    private static _origin(url: string): string {
+        try {
+            return new URL(url, globalThis.location?.href).origin;
+        } catch (_) {
+            return "";
+        }
+    }
+
+}
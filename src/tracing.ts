@@ -0,0 +1,42 @@
+import { SpanAttributeValue, SpanContext, SpanOptions, Tracer } from "./client.js";
+import { InMemoryTracerImpl } from "./tracing/InMemoryTracer.js";
+
+// =========================================================================== //
+// This file contains a tracer recording spans in memory, e.g. for tests.      //
+// For production use, pass an adapter to an OpenTelemetry tracer instead.     //
+// =========================================================================== //
+
+/**
+ * A span that has ended, as recorded by an {@link InMemoryTracer}. Times are epoch milliseconds.
+ */
+export interface FinishedSpan extends SpanContext {
+    name: string;
+    kind: SpanOptions["kind"];
+    /**
+     * Undefined for the root span of a trace
+     */
+    parentSpanId?: string;
+    attributes: Record<string, SpanAttributeValue>;
+    status: {code: "unset"|"ok"|"error"; message?: string;};
+    exceptions: Array<unknown>;
+    startTime: number;
+    endTime: number;
+}
+
+export interface InMemoryTracer extends Tracer {
+    /**
+     * The spans ended so far, in the order they ended
+     */
+    finishedSpans(): Array<FinishedSpan>;
+    /**
+     * Remove the spans recorded so far
+     */
+    reset(): void;
+}
+
+/**
+ * Create a tracer to be passed as {@link TracingConfig.tracer}, which keeps the spans in memory. Trace and span ids are random.
+ */
+export function createInMemoryTracer(): InMemoryTracer {
+    return new InMemoryTracerImpl();
+}
@@ -0,0 +1,77 @@
+import { Span, SpanAttributeValue, SpanContext, SpanOptions } from "../client.js";
+import { FinishedSpan, InMemoryTracer } from "../tracing.js";
+
+class RecordingSpan implements Span {
+
+    readonly #context: SpanContext;
+    readonly #attributes: Record<string, SpanAttributeValue>;
+    readonly #exceptions: Array<unknown> = [];
+    readonly #startTime: number = Date.now();
+    #status: FinishedSpan["status"] = {code: "unset"};
+    #ended: boolean = false;
+
+    constructor(
+        private readonly _name: string,
+        private readonly _options: SpanOptions,
+        private readonly _onEnd: (span: FinishedSpan) => void
+    ) {
+        const parent = _options.parent;
+        this.#context = {traceId: parent?.traceId ?? RecordingSpan._randomId(16), spanId: RecordingSpan._randomId(8), 
+            traceFlags: parent?.traceFlags ?? 1, traceState: parent?.traceState};
+        this.#attributes = {..._options.attributes};
+    }
+
+    spanContext(): SpanContext {
+        return {...this.#context};
+    }
+
+    setAttribute(key: string, value: SpanAttributeValue): void {
+        if (!this.#ended)
+            this.#attributes[key] = value;
+    }
+
+    setStatus(status: {code: "ok"|"error"; message?: string;}): void {
+        if (!this.#ended)
+            this.#status = {...status};
+    }
+
+    recordException(error: unknown): void {
+        if (!this.#ended)
+            this.#exceptions.push(error);
+    }
+
+    end(): void {
+        if (this.#ended)
+            return;
+        this.#ended = true;
+        this._onEnd({name: this._name, kind: this._options.kind, ...this.#context, parentSpanId: this._options.parent?.spanId, 
+            attributes: {...this.#attributes}, status: this.#status, exceptions: [...this.#exceptions], startTime: this.#startTime, endTime: Date.now()});
+    }
+
+    private static _randomId(bytes: number): string {
+        const values = globalThis.crypto.getRandomValues(new Uint8Array(bytes));
+        return Array.from(values, b => b.toString(16).padStart(2, "0")).join("");
+    }
+
+}
+
+/**
+ * A tracer keeping the ended spans in memory, in the order they ended.
+ */
+export class InMemoryTracerImpl implements InMemoryTracer {
+
+    #spans: Array<FinishedSpan> = [];
+
+    startSpan(name: string, options: SpanOptions): Span {
+        return new RecordingSpan(name, options, span => this.#spans.push(span));
+    }
+
+    finishedSpans(): Array<FinishedSpan> {
+        return [...this.#spans];
+    }
+
+    reset(): void {
+        this.#spans = [];
+    }
+
+}
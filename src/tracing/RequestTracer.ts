@@ -0,0 +1,147 @@
+import { isFetchClientError, Span, SpanAttributeValue, SpanContext, Tracer, TracingConfig } from "../client.js";
+
+/**
+ * Key of the request option by which the span of a request is passed to its attempts, and from a caching client to its delegate.
+ * Being a symbol, it survives the shallow copies of the request options made by the clients, but is not part of the public API.
+ */
+export const TRACE_CONTEXT: unique symbol = Symbol("traceContext");
+
+export type TraceContextOption = {[TRACE_CONTEXT]?: Span};
+
+/**
+ * Opens the spans of requests, attempts and cache lookups, and propagates the trace context via the W3C Trace Context headers.
+ * Exceptions thrown by the tracer are ignored, in which case the span is missing.
+ */
+export class RequestTracer {
+
+    static readonly #TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+    static readonly #INVALID_TRACE_ID = "0".repeat(32);
+    static readonly #INVALID_SPAN_ID = "0".repeat(16);
+    readonly #tracer: Tracer;
+    readonly #propagate: boolean;
+    readonly #parent: (() => SpanContext|undefined)|undefined;
+
+    constructor(config: TracingConfig) {
+        this.#tracer = config.tracer;
+        this.#propagate = config.propagate !== false;
+        this.#parent = config.parent;
+    }
+
+    /**
+     * Opens the span of a call to fetch or fetchJson. Its parent is taken from the traceparent header of the request, if present.
+     */
+    startRequest(method: string, url: string | URL | Request, headers: Headers): Span|undefined {
+        let parent: SpanContext|undefined = RequestTracer.parseTraceparent(headers.get("traceparent"), headers.get("tracestate"));
+        if (!parent) {
+            try {
+                parent = this.#parent?.();
+            } catch (_) {}
+        }
+        return this._start(method, {kind: "internal", parent: parent, attributes: RequestTracer._httpAttributes(method, url)});
+    }
+
+    startAttempt(parent: Span|undefined, method: string, url: string | URL | Request, attempt: number): Span|undefined {
+        const attributes = RequestTracer._httpAttributes(method, url);
+        if (attempt > 1)
+            attributes["http.request.resend_count"] = attempt - 1;
+        return this._start(method, {kind: "client", parent: RequestTracer._contextOf(parent), attributes: attributes});
+    }
+
+    startCacheLookup(parent: Span|undefined, key: string, table: string): Span|undefined {
+        return this._start("cache lookup", {kind: "internal", parent: RequestTracer._contextOf(parent), 
+            attributes: {"fetch_client.cache.key": key, "fetch_client.cache.table": table}});
+    }
+
+    /**
+     * Adds the traceparent and tracestate headers identifying the span to the request, unless propagation is disabled
+     */
+    inject(span: Span|undefined, url: string | URL | Request, init: RequestInit): RequestInit {
+        const context: SpanContext|undefined = this.#propagate ? RequestTracer._contextOf(span) : undefined;
+        if (!context)
+            return init;
+        const headers = new Headers(init.headers ?? (url instanceof Request ? url.headers : undefined));
+        headers.set("traceparent", "00-" + context.traceId + "-" + context.spanId + "-" + (context.traceFlags & 0xff).toString(16).padStart(2, "0"));
+        if (context.traceState)
+            headers.set("tracestate", context.traceState);
+        else
+            headers.delete("tracestate");
+        return {...init, headers: headers};
+    }
+
+    static setAttribute(span: Span|undefined, key: string, value: SpanAttributeValue) {
+        try {
+            span?.setAttribute(key, value);
+        } catch (_) {}
+    }
+
+    /**
+     * Ends the span of a request or attempt, with the status code of the response or the error
+     */
+    static end(span: Span|undefined, status?: number, error?: unknown) {
+        if (!span)
+            return;
+        try {
+            if (status !== undefined)
+                span.setAttribute("http.response.status_code", status);
+            if (error !== undefined) {
+                span.recordException(error);
+                span.setAttribute("error.type", status !== undefined && status >= 400 ? String(status) : RequestTracer._errorType(error));
+                span.setStatus({code: "error", message: error instanceof Error ? error.message : String(error)});
+            } else if (status !== undefined && status >= 400) {
+                span.setAttribute("error.type", String(status));
+                span.setStatus({code: "error"});
+            }
+            span.end();
+        } catch (_) {}
+    }
+
+    /**
+     * Parses the W3C traceparent header, see https://www.w3.org/TR/trace-context/#traceparent-header
+     */
+    static parseTraceparent(traceparent: string|null|undefined, tracestate?: string|null): SpanContext|undefined {
+        const match = traceparent ? RequestTracer.#TRACEPARENT.exec(traceparent.trim()) : null;
+        if (!match || match[1] === "ff" || (match[1] === "00" && match[5] !== undefined) 
+                || match[2] === RequestTracer.#INVALID_TRACE_ID || match[3] === RequestTracer.#INVALID_SPAN_ID)
+            return undefined;
+        return {traceId: match[2], spanId: match[3], traceFlags: parseInt(match[4], 16), traceState: tracestate || undefined};
+    }
+
+    private _start(name: string, options: Parameters<Tracer["startSpan"]>[1]): Span|undefined {
+        try {
+            return this.#tracer.startSpan(name, options);
+        } catch (_) {
+            return undefined;
+        }
+    }
+
+    private static _contextOf(span: Span|undefined): SpanContext|undefined {
+        try {
+            return span?.spanContext();
+        } catch (_) {
+            return undefined;
+        }
+    }
+
+    private static _httpAttributes(method: string, url: string | URL | Request): Record<string, SpanAttributeValue> {
+        const full: string = url instanceof Request ? url.url : url.toString();
+        const attributes: Record<string, SpanAttributeValue> = {"http.request.method": method, "url.full": full};
+        try {
+            const parsed = new URL(full);
+            attributes["server.address"] = parsed.hostname;
+            attributes["server.port"] = parsed.port ? parseInt(parsed.port) : parsed.protocol === "https:" ? 443 : 80;
+            if (parsed.username || parsed.password) {  // credentials must be redacted according to the semantic conventions
+                parsed.username = "REDACTED";
+                parsed.password = "REDACTED";
+                attributes["url.full"] = parsed.toString();
+            }
+        } catch (_) {}  // relative url
+        return attributes;
+    }
+
+    private static _errorType(error: unknown): string {
+        if (isFetchClientError(error))
+            return error.kind;
+        return error instanceof Error ? error.name : "_OTHER";
+    }
+
+}
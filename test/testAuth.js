@@ -0,0 +1,83 @@
+import test from "ava";
+import {createFetchClient, HttpError} from "../dist/client.js";
+
+/**
+ * Returns a fetch mock that responds with status 401 unless the expected token is sent,
+ * and with the status codes provided for authorized requests otherwise
+ */
+function authFetch(expectedToken, statusCodes) {
+    const tokens = [];
+    let authorized = 0;
+    const fetch = async (url, init) => {
+        const header = new Headers(init?.headers).get("Authorization");
+        tokens.push(header);
+        if (header !== "Bearer " + expectedToken)
+            return new Response("unauthorized", {status: 401});
+        const status = statusCodes?.[authorized++] || 200;
+        return new Response("ok", {status: status});
+    };
+    return [fetch, tokens];
+}
+
+function tokenProvider(initialToken, refreshedToken, refreshDelay) {
+    const provider = {
+        token: initialToken,
+        refreshes: 0,
+        getToken: () => provider.token,
+        refreshToken: async () => {
+            provider.refreshes++;
+            if (refreshDelay)
+                await new Promise(resolve => setTimeout(resolve, refreshDelay));
+            provider.token = refreshedToken;
+        }
+    };
+    return provider;
+}
+
+test("Auth token is added to requests", async t => {
+    const [fetch, tokens] = authFetch("abc");
+    const client = await createFetchClient({auth: tokenProvider("abc"), fetch: fetch});
+    await client.fetch("test");
+    await client.fetch("test", {skipAuth: true, skipFailOnErrorCode: true});
+    t.deepEqual(tokens, ["Bearer abc", null]);
+    await client.close();
+});
+
+test("Request is replayed after token refresh without counting as a retry", async t => {
+    const [fetch, tokens] = authFetch("new", [503]);
+    const provider = tokenProvider("old", "new");
+    const client = await createFetchClient({auth: provider, retries: {maxRetries: 1, initialDelay: 0}, fetch: fetch});
+    const retries = [];
+    client.on("retry", evt => retries.push(evt));
+    const response = await client.fetch("test");
+    t.is(response.status, 200);
+    t.deepEqual(tokens, ["Bearer old", "Bearer new", "Bearer new"]);
+    t.is(provider.refreshes, 1);
+    t.is(retries.length, 1);
+    await client.close();
+});
+
+test("Concurrent requests share a single token refresh", async t => {
+    const [fetch, tokens] = authFetch("new");
+    const provider = tokenProvider("old", "new", 100);
+    const client = await createFetchClient({auth: provider, fetch: fetch});
+    const responses = await Promise.all([client.fetch("a"), client.fetch("b"), client.fetch("c")]);
+    t.true(responses.every(r => r.status === 200));
+    t.is(provider.refreshes, 1);
+    // subsequent requests use the new token right away
+    await client.fetch("d");
+    t.is(tokens[tokens.length - 1], "Bearer new");
+    t.is(provider.refreshes, 1);
+    await client.close();
+});
+
+test("Request is replayed only once", async t => {
+    const [fetch, tokens] = authFetch("never");
+    const provider = tokenProvider("old", "new");
+    const client = await createFetchClient({auth: provider, fetch: fetch});
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: HttpError});
+    t.is(error.details.status, 401);
+    t.deepEqual(tokens, ["Bearer old", "Bearer new"]);
+    t.is(provider.refreshes, 1);
+    await client.close();
+});
@@ -0,0 +1,273 @@
+import test from "ava";
+import {createFetchClient} from "../dist/client.js";
+import {createCircuitBreakerStore} from "../dist/cache.js";
+import {retriedError} from "./helpers/utils.js";
+
+/**
+ * Returns a fetch mock that fails for all urls containing one of the specified strings
+ */
+function failingFetch(...failing) {
+    return async (url, init) => {
+        const urlStr = url instanceof Request ? url.url : url.toString();
+        if (failing.find(f => urlStr.indexOf(f) >= 0))
+            throw retriedError({endpoint: urlStr, method: init?.method || "GET"});
+        return new Response("ok");
+    };
+}
+
+function assertIsCircuitError(t, thrown) {
+    t.assert(thrown?.message?.indexOf("circuit breaker") >= 0, 
+        "Unexpected error; expected BrokenCircuitError, got " + thrown?.message);
+}
+
+test("Circuit breakers per origin work", async t => {
+    const client = await createFetchClient({
+        circuitBreaker: {scope: "origin", default: {openAfterFailedAttempts: 1, halfOpenAfter: 60_000}},
+        fetch: failingFetch("failing.example.com")
+    });
+    await t.throwsAsync(() => client.fetch("https://failing.example.com/a"));
+    assertIsCircuitError(t, await t.throwsAsync(() => client.fetch("https://failing.example.com/b")));
+    const resp = await client.fetch("https://working.example.com/a");
+    t.is(await resp.text(), "ok");
+    await client.close();
+});
+
+test("Circuit breakers per path prefix work", async t => {
+    const client = await createFetchClient({
+        baseUrl: "https://example.com",
+        circuitBreaker: {
+            scope: "pathPrefix", 
+            breakers: {
+                "/users": {openAfterFailedAttempts: 1, halfOpenAfter: 60_000},
+                "/users/admin": {openAfterFailedAttempts: 3, halfOpenAfter: 60_000}
+            }
+        },
+        fetch: failingFetch("/users")
+    });
+    await t.throwsAsync(() => client.fetch("/users/1"));
+    assertIsCircuitError(t, await t.throwsAsync(() => client.fetch("/users/2")));
+    // the longer prefix has its own breaker, which requires more failures to open
+    for (let idx=0; idx<3; idx++) {
+        const thrown = await t.throwsAsync(() => client.fetch("/users/admin/" + idx));
+        t.assert(thrown?.message?.indexOf("circuit breaker") < 0, "Unexpected circuit breaker error at attempt " + idx);
+    }
+    assertIsCircuitError(t, await t.throwsAsync(() => client.fetch("/users/admin/4")));
+    // not subject to any breaker
+    t.is(await (await client.fetch("/items")).text(), "ok");
+    await client.close();
+});
+
+test("Circuit breakers with custom key work", async t => {
+    const keys = [];
+    const client = await createFetchClient({
+        circuitBreaker: {
+            scope: (url, method) => {
+                keys.push(method);
+                return method === "GET" ? undefined : method;
+            }, 
+            default: {openAfterFailedAttempts: 1, halfOpenAfter: 60_000}
+        },
+        fetch: failingFetch("example.com")
+    });
+    const events = [];
+    client.on("circuitOpen", evt => events.push(evt));
+    await t.throwsAsync(() => client.fetch("https://example.com", {method: "PUT"}));
+    assertIsCircuitError(t, await t.throwsAsync(() => client.fetch("https://example.com", {method: "PUT"})));
+    t.is(events.length, 1);
+    t.is(events[0].breaker, "PUT");
+    // GET requests are not subject to a circuit breaker
+    await t.throwsAsync(() => client.fetch("https://example.com"));
+    const thrown = await t.throwsAsync(() => client.fetch("https://example.com"));
+    t.assert(thrown?.message?.indexOf("circuit breaker") < 0, "Unexpected circuit breaker error");
+    t.deepEqual(keys, ["PUT", "PUT", "GET", "GET"]);
+    await client.close();
+});
+
+/**
+ * Replaces Date.now by a fake clock for the duration of the test; must only be used in serial tests.
+ */
+function useFakeClock(t) {
+    const originalNow = Date.now;
+    const clock = {now: originalNow()};
+    Date.now = () => clock.now;
+    t.teardown(() => Date.now = originalNow);
+    return clock;
+}
+
+/**
+ * Fetch mock that fails if the url path is "fail"
+ */
+function failOnPath() {
+    return async (url, init) => {
+        if (url.toString().endsWith("fail"))
+            throw retriedError({method: init?.method || "GET"});
+        return new Response("ok");
+    };
+}
+
+test.serial("Failure rate circuit breaker opens above threshold", async t => {
+    const clock = useFakeClock(t);
+    const client = await createFetchClient({
+        circuitBreaker: {failureRate: {threshold: 0.25, duration: 10_000, minimumThroughput: 10}, halfOpenAfter: 60_000},
+        fetch: failOnPath()
+    });
+    // 30% failure rate, but never more than one consecutive failure
+    for (let idx=0; idx<10; idx++) {
+        clock.now += 100;
+        const path = idx % 3 === 2 ? "fail" : "ok";
+        if (path === "fail") {
+            const thrown = await t.throwsAsync(() => client.fetch(path));
+            t.assert(thrown?.message?.indexOf("circuit breaker") < 0, "Circuit breaker opened prematurely at request " + idx);
+        } else {
+            await client.fetch(path);
+        }
+    }
+    clock.now += 100;
+    await t.throwsAsync(() => client.fetch("fail"));
+    assertIsCircuitError(t, await t.throwsAsync(() => client.fetch("ok")));
+    // after halfOpenAfter the breaker lets requests pass again
+    clock.now += 60_001;
+    t.is(await (await client.fetch("ok")).text(), "ok");
+    await client.close();
+});
+
+test.serial("Failure rate circuit breaker respects minimum throughput", async t => {
+    const clock = useFakeClock(t);
+    const client = await createFetchClient({
+        circuitBreaker: {failureRate: {threshold: 0.5, duration: 10_000, minimumThroughput: 5}, halfOpenAfter: 60_000},
+        fetch: failOnPath()
+    });
+    for (let idx=0; idx<4; idx++) {
+        clock.now += 100;
+        const thrown = await t.throwsAsync(() => client.fetch("fail"));
+        t.assert(thrown?.message?.indexOf("circuit breaker") < 0, "Circuit breaker opened below minimum throughput at request " + idx);
+    }
+    clock.now += 100;
+    await t.throwsAsync(() => client.fetch("fail"));
+    assertIsCircuitError(t, await t.throwsAsync(() => client.fetch("ok")));
+    await client.close();
+});
+
+test.serial("Failure rate circuit breaker forgets failures outside the window", async t => {
+    const clock = useFakeClock(t);
+    const client = await createFetchClient({
+        circuitBreaker: {failureRate: {threshold: 0.5, duration: 10_000, minimumThroughput: 4}, halfOpenAfter: 60_000},
+        fetch: failOnPath()
+    });
+    for (let idx=0; idx<3; idx++) {
+        clock.now += 100;
+        await t.throwsAsync(() => client.fetch("fail"));
+    }
+    // the failures above leave the sampling window
+    clock.now += 20_000;
+    for (let idx=0; idx<3; idx++) {
+        clock.now += 100;
+        await client.fetch("ok");
+    }
+    clock.now += 100;
+    const thrown = await t.throwsAsync(() => client.fetch("fail"));
+    t.assert(thrown?.message?.indexOf("circuit breaker") < 0, "Circuit breaker opened due to outdated failures");
+    t.is(await (await client.fetch("ok")).text(), "ok");
+    await client.close();
+});
+
+test("Circuit breaker config without mode is rejected", async t => {
+    await t.throwsAsync(() => createFetchClient({circuitBreaker: {halfOpenAfter: 1_000}}));
+});
+
+test("Circuit breaker state can be inspected", async t => {
+    const client = await createFetchClient({
+        circuitBreaker: {openAfterFailedAttempts: 1, halfOpenAfter: 60_000},
+        fetch: failingFetch("fail")
+    });
+    t.deepEqual(client.circuitState(), {state: "closed"});
+    const start = Date.now();
+    await t.throwsAsync(() => client.fetch("fail"));
+    const state = client.circuitState();
+    t.is(state.state, "open");
+    t.true(state.nextAttempt.getTime() >= start + 60_000);
+    await client.close();
+});
+
+test("Circuit breaker state is undefined without circuit breaker", async t => {
+    const client = await createFetchClient({fetch: failingFetch("fail")});
+    t.is(client.circuitState(), undefined);
+    t.false(client.isolateCircuit());
+    await client.close();
+});
+
+test("Circuit breaker can be isolated and reset", async t => {
+    const client = await createFetchClient({
+        circuitBreaker: {openAfterFailedAttempts: 1, halfOpenAfter: 60_000},
+        fetch: failingFetch("fail")
+    });
+    const events = [];
+    client.on("circuitOpen", () => events.push("open"));
+    client.on("circuitClose", () => events.push("close"));
+    t.true(client.isolateCircuit());
+    t.is(client.circuitState().state, "isolated");
+    await t.throwsAsync(() => client.fetch("ok"));
+    t.true(client.resetCircuit());
+    t.is(client.circuitState().state, "closed");
+    t.is(await (await client.fetch("ok")).text(), "ok");
+    // reset works for the open state as well
+    await t.throwsAsync(() => client.fetch("fail"));
+    t.is(client.circuitState().state, "open");
+    client.resetCircuit();
+    t.is(await (await client.fetch("ok")).text(), "ok");
+    t.deepEqual(events, ["open", "close", "open", "close"]);
+    await client.close();
+});
+
+test("Scoped circuit breakers can be isolated individually", async t => {
+    const client = await createFetchClient({
+        circuitBreaker: {scope: "origin", default: {openAfterFailedAttempts: 1, halfOpenAfter: 60_000}},
+        fetch: failingFetch("fail")
+    });
+    client.isolateCircuit("https://a.example.com");
+    t.is(client.circuitState("https://a.example.com").state, "isolated");
+    t.is(client.circuitState("https://b.example.com").state, "closed");
+    assertIsCircuitError(t, await t.throwsAsync(() => client.fetch("https://a.example.com/ok")));
+    t.is(await (await client.fetch("https://b.example.com/ok")).text(), "ok");
+    await client.close();
+});
+
+test("Circuit breaker state is persisted", async t => {
+    const persisted = {};
+    const store = {
+        load: async () => ({...persisted}),
+        save: async (key, state) => persisted[key] = state
+    };
+    const options = {
+        circuitBreaker: {openAfterFailedAttempts: 1, halfOpenAfter: 60_000},
+        circuitBreakerStore: store,
+        fetch: failingFetch("fail")
+    };
+    const client = await createFetchClient(options);
+    await t.throwsAsync(() => client.fetch("fail"));
+    t.is(client.circuitState().state, "open");
+    await client.close();
+    t.truthy(persisted[""]);
+    const client2 = await createFetchClient(options);
+    t.is(client2.circuitState().state, "open");
+    assertIsCircuitError(t, await t.throwsAsync(() => client2.fetch("ok")));
+    await client2.close();
+});
+
+test("Circuit breaker state is persisted in cache store", async t => {
+    const store = createCircuitBreakerStore({id: "memory"});
+    const options = {
+        circuitBreaker: {scope: "origin", default: {openAfterFailedAttempts: 1, halfOpenAfter: 60_000}},
+        circuitBreakerStore: store,
+        fetch: failingFetch("fail")
+    };
+    const client = await createFetchClient(options);
+    await t.throwsAsync(() => client.fetch("https://a.example.com/fail"));
+    await client.close();
+    // wait for the asynchronous save operation
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const client2 = await createFetchClient(options);
+    t.is(client2.circuitState("https://a.example.com").state, "open");
+    t.is(client2.circuitState("https://b.example.com").state, "closed");
+    await client2.close();
+});
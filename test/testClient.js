@@ -22,6 +22,15 @@ test("SimpleClient fails on error", async t => {
     await t.throwsAsync(() => createFetchClient({fetch: fetch}).then(cl => cl.fetch("")));
 });
 
+test("Error status codes can be accepted client-wide", async t => {
+    for (const resilient of [false, true]) {
+        const client = await createFetchClient({defaultSkipFailOnErrorCode: true, resilient: resilient, fetch: mockFetch({status: 404})});
+        const response = await client.fetch("");
+        t.is(response.status, 404);
+        await client.close();
+    }
+});
+
 test("Timeout works", async t => {
     const fetch = mockFetch({delay: 5_000});
     const client = await createFetchClient({timeoutRequest: 10, fetch: fetch});
@@ -226,6 +235,125 @@ test("Retry after works with global timeout", async t => {
 });
 
 
+test("Retry after exceeding the maximum delay fails fast", async t => {
+    const fetch = mockFetch({
+        status: [503],
+        headers: [{"Retry-After": 60}],
+    });
+    const client = await createFetchClient({
+        retries: {maxRetries: 1, initialDelay: 0, retryAfter: {maxDelay: 1_000}},
+        fetch: fetch
+    });
+    const start = Date.now();
+    const error = await t.throwsAsync(() => client.fetch(""), {instanceOf: HttpError});
+    t.is(error.details.status, 503);
+    t.true(Date.now() - start < 1_000);
+    await client.close();
+});
+
+test("Retry after works with custom status codes and headers", async t => {
+    const expectedResult = "expectedTestResultCustomRetryAfter";
+    const fetch = mockFetch({
+        status: [500],
+        headers: [{"X-Wait": 0.4, "Retry-After": 0}],
+        result: expectedResult
+    });
+    const client = await createFetchClient({
+        retries: {maxRetries: 1, initialDelay: 0, retryAfter: {statusCodes: [500], headers: ["X-Wait"]}},
+        fetch: fetch
+    });
+    const start = Date.now();
+    const result = await (await client.fetch("")).text();
+    t.is(result, expectedResult);
+    t.true(Date.now() - start >= 350);
+    await client.close();
+});
+
+test("Constant backoff works", async t => {
+    const fetch = mockFetch({error: [retriedError(), retriedError()]});
+    const client = await createFetchClient({retries: {maxRetries: 2, initialDelay: 20, backoff: "constant"}, fetch: fetch});
+    const delays = [];
+    client.on("retry", evt => delays.push(evt.delay));
+    await client.fetch("");
+    t.deepEqual(delays, [20, 20]);
+    await client.close();
+});
+
+test("Custom backoff function works", async t => {
+    const fetch = mockFetch({error: [retriedError(), retriedError()]});
+    const contexts = [];
+    const client = await createFetchClient({
+        retries: {maxRetries: 2, backoff: ctx => {
+            contexts.push(ctx);
+            return 10 * ctx.retry;
+        }}, 
+        fetch: fetch
+    });
+    const delays = [];
+    client.on("retry", evt => delays.push(evt.delay));
+    await client.fetch("");
+    t.deepEqual(delays, [10, 20]);
+    t.deepEqual(contexts.map(ctx => ctx.retry), [1, 2]);
+    t.deepEqual(contexts.map(ctx => ctx.previousDelay), [undefined, 10]);
+    t.true(contexts[0].error instanceof HttpError);
+    await client.close();
+});
+
+
+function recordingFetch(fetch) {
+    const headers = [];
+    const wrapped = (url, init) => {
+        headers.push(new Headers(init?.headers));
+        return fetch(url, init);
+    };
+    return [wrapped, headers];
+}
+
+test("Idempotency key is sent and reused for retries", async t => {
+    const [fetch, headers] = recordingFetch(mockFetch({error: [retriedError({method: "POST"})]}));
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0, idempotencyKey: true}, fetch: fetch});
+    await client.fetch("test", {method: "POST", body: "{}"});
+    t.is(headers.length, 2);
+    const key = headers[0].get("Idempotency-Key");
+    t.regex(key, /^"[0-9a-f-]{36}"$/);
+    t.is(headers[1].get("Idempotency-Key"), key);
+    await client.fetch("test", {method: "POST", body: "{}"});
+    t.not(headers[2].get("Idempotency-Key"), key);
+    await client.close();
+});
+
+test("Idempotency key provided by the caller is kept", async t => {
+    const [fetch, headers] = recordingFetch(mockFetch({error: [retriedError({method: "PATCH"})]}));
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0, idempotencyKey: true}, fetch: fetch});
+    await client.fetch("test", {method: "PATCH", body: "{}", headers: {"Idempotency-Key": "\"abc\""}});
+    t.deepEqual(headers.map(h => h.get("Idempotency-Key")), ["\"abc\"", "\"abc\""]);
+    await client.close();
+});
+
+test("Non-idempotent requests without idempotency key are not retried", async t => {
+    const [fetch, headers] = recordingFetch(mockFetch({error: [retriedError({method: "PATCH"})]}));
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0}, fetch: fetch});
+    await t.throwsAsync(() => client.fetch("test", {method: "PATCH", body: "{}"}), {instanceOf: HttpError});
+    t.is(headers.length, 1);
+    t.is(headers[0].get("Idempotency-Key"), null);
+    await client.close();
+});
+
+test("Retry predicate per request works", async t => {
+    const fetch = mockFetch({error: [retriedError({statusCode: 409}), retriedError({statusCode: 409}), retriedError({statusCode: 409})]});
+    const client = await createFetchClient({retries: {maxRetries: 3, initialDelay: 0}, fetch: fetch});
+    const calls = [];
+    const shouldRetry = (error, attempt, request) => {
+        calls.push([attempt, request.endpoint, request.method]);
+        return error.details.status === 409 && attempt < 2;
+    };
+    const error = await t.throwsAsync(() => client.fetch("test", {shouldRetry: shouldRetry}), {instanceOf: HttpError});
+    t.is(error.details.status, 409);
+    t.deepEqual(calls, [[1, "test", "GET"], [2, "test", "GET"]]);
+    await client.close();
+});
+
+
 test("Return headers works with simple client", async t => {
     const header = "X-Test";
     const expectedHeader = "expectedTestHeader!";
@@ -307,3 +435,31 @@ test("Default headers work with resilient client", async t => {
     t.is(resp?.headers?.get(respHeader), respHeaderValue);
     await client.close();
 });
+
+test("Retries can be disabled per request", async t => {
+    const fetch = mockFetch({error: [retriedError()], result: "expectedResultAfterRetry"});
+    const client = await createFetchClient({retries: 2, fetch: fetch});
+    const thrown = await t.throwsAsync(() => client.fetch("", {retries: 0}));
+    t.true(thrown instanceof HttpError, "HttpError expected, got " + thrown);
+    await client.close();
+});
+
+test("Retries can be enabled per request", async t => {
+    const expectedResult = "expectedPerRequestRetryResult";
+    const fetch = mockFetch({error: [retriedError()], result: expectedResult});
+    const client = await createFetchClient({resilient: true, fetch: fetch});
+    const result = await (await client.fetch("", {retries: {maxRetries: 1, initialDelay: 0}})).text();
+    t.is(result, expectedResult);
+    await client.close();
+});
+
+test("Timeout can be overwritten per request", async t => {
+    const expectedResult = "expectedPerRequestTimeoutResult";
+    const fetch = mockFetch({delay: 200, result: expectedResult});
+    const client = await createFetchClient({timeoutRequest: 10, fetch: fetch});
+    const result = await (await client.fetch("", {timeoutRequest: 5_000})).text();
+    t.is(result, expectedResult);
+    const thrown = await t.throwsAsync(() => client.fetch(""));
+    assertIsTimeoutError(t, thrown);
+    await client.close();
+});
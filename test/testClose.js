@@ -0,0 +1,54 @@
+import test from "ava";
+import {ClientClosedError, createFetchClient} from "../dist/client.js";
+import {mockFetch} from "./helpers/utils.js";
+
+test("Requests after close are rejected", async t => {
+    const client = await createFetchClient({fetch: mockFetch()});
+    t.deepEqual(await client.close(), {completed: 0, aborted: 0, queued: 0});
+    const result = client.fetch("test");
+    t.true(result instanceof Promise);
+    const error = await t.throwsAsync(result, {instanceOf: ClientClosedError});
+    t.is(error.kind, "closed");
+});
+
+test("Close waits for requests in flight", async t => {
+    const client = await createFetchClient({fetch: mockFetch({delay: 200})});
+    const result = client.fetch("test");
+    const closed = client.close();
+    t.is(client.close(), closed);
+    t.deepEqual(await closed, {completed: 1, aborted: 0, queued: 0});
+    t.is(await (await result).text(), "someString");
+});
+
+test("Close aborts requests exceeding the timeout", async t => {
+    const client = await createFetchClient({retries: 1, fetch: mockFetch({delay: 60_000})});
+    const result = client.fetch("test");
+    const start = Date.now();
+    t.deepEqual(await client.close({timeout: 100}), {completed: 0, aborted: 1, queued: 0});
+    t.true(Date.now() - start < 1_000);
+    await t.throwsAsync(result);
+});
+
+test("Close rejects requests queued in the bulkhead", async t => {
+    const client = await createFetchClient({parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 5}, fetch: mockFetch({delay: 200})});
+    const results = [client.fetch("test1"), client.fetch("test2"), client.fetch("test3")];
+    t.deepEqual(await client.close(), {completed: 1, aborted: 0, queued: 2});
+    t.is(await (await results[0]).text(), "someString");
+    await t.throwsAsync(results[1], {instanceOf: ClientClosedError});
+    await t.throwsAsync(results[2], {instanceOf: ClientClosedError});
+});
+
+test("Caching client reports the drain result of the underlying client", async t => {
+    const mock = mockFetch({result: JSON.stringify({a: 1}), headers: {"Content-Type": "application/json"}, delay: 100});
+    let started;
+    const fetchStarted = new Promise(resolve => started = resolve);
+    const fetch = (url, init) => {
+        started();
+        return mock(url, init);
+    };
+    const client = await createFetchClient({cache: {id: "memory"}, fetch: fetch});
+    const result = client.fetchJson("test", {useCache: {key: "a1"}});
+    await fetchStarted;
+    t.deepEqual(await client.close(), {completed: 1, aborted: 0, queued: 0});
+    t.deepEqual((await result).value, {a: 1});
+});
@@ -0,0 +1,71 @@
+import test from "ava";
+import {createFetchClient} from "../dist/client.js";
+import {mockFetch} from "./helpers/utils.js";
+
+/**
+ * Counts the calls to fetch and records the signals passed
+ */
+function countingFetch(fetch) {
+    const signals = [];
+    const wrapped = (url, init) => {
+        signals.push(init?.signal);
+        return fetch(url, init);
+    };
+    return [wrapped, signals];
+}
+
+test("Concurrent identical requests share one fetch", async t => {
+    const [fetch, signals] = countingFetch(mockFetch({result: "shared", delay: 100}));
+    const client = await createFetchClient({coalescing: true, fetch: fetch});
+    const responses = await Promise.all([client.fetch("test"), client.fetch("test"), client.fetch("test")]);
+    t.is(signals.length, 1);
+    t.deepEqual(await Promise.all(responses.map(r => r.text())), ["shared", "shared", "shared"]);
+    // not in flight any more
+    await client.fetch("test");
+    t.is(signals.length, 2);
+    await client.close();
+});
+
+test("Coalesced json requests receive their own result", async t => {
+    const [fetch, signals] = countingFetch(mockFetch({result: JSON.stringify({a: 1}), headers: {"Content-Type": "application/json"}, delay: 100}));
+    const client = await createFetchClient({coalescing: true, retries: 1, fetch: fetch});
+    const [result1, result2] = await Promise.all([client.fetchJson("test"), client.fetchJson("test")]);
+    t.is(signals.length, 1);
+    t.deepEqual(result1.value, {a: 1});
+    t.deepEqual(result2.value, {a: 1});
+    t.not(result1.value, result2.value);
+    await client.close();
+});
+
+test("Requests differing in method, url or selected headers are not coalesced", async t => {
+    const [fetch, signals] = countingFetch(mockFetch({delay: 100}));
+    const client = await createFetchClient({coalescing: {headers: ["Accept"]}, fetch: fetch});
+    await Promise.all([
+        client.fetch("test"),
+        client.fetch("test", {headers: {"Accept": "text/plain"}}),
+        client.fetch("test", {headers: {"X-Other": "ignored"}}),
+        client.fetch("other"),
+        client.fetch("test", {method: "POST", body: "{}"}),
+        client.fetch("test", {coalesce: false})
+    ]);
+    t.is(signals.length, 5);
+    await client.close();
+});
+
+test("Shared request is aborted only when all callers have aborted", async t => {
+    const [fetch, signals] = countingFetch(mockFetch({delay: 60_000}));
+    const client = await createFetchClient({coalescing: true, fetch: fetch});
+    const ctrl1 = new AbortController();
+    const ctrl2 = new AbortController();
+    const result1 = client.fetch("test", {signal: ctrl1.signal});
+    const result2 = client.fetch("test", {signal: ctrl2.signal});
+    await new Promise(resolve => setTimeout(resolve, 50));
+    ctrl1.abort(new Error("reason1"));
+    const error1 = await t.throwsAsync(result1);
+    t.is(error1.message, "reason1");
+    t.false(signals[0].aborted);
+    ctrl2.abort(new Error("reason2"));
+    await t.throwsAsync(result2);
+    t.true(signals[0].aborted);
+    await client.close();
+});
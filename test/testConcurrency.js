@@ -0,0 +1,138 @@
+import test from "ava";
+import {createFetchClient, isFetchClientError, QueueTimeoutError} from "../dist/client.js";
+import {mockFetch, retriedError} from "./helpers/utils.js";
+
+test("Concurrency state of static bulkhead can be inspected", async t => {
+    const client = await createFetchClient({parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 1}, fetch: mockFetch({delay: 200})});
+    t.deepEqual(client.concurrency(), {limit: 1, inFlight: 0, queued: 0});
+    const requests = [client.fetch("test"), client.fetch("test")];
+    await new Promise(resolve => setTimeout(resolve, 50));
+    t.deepEqual(client.concurrency(), {limit: 1, inFlight: 1, queued: 1});
+    await Promise.all(requests);
+    t.deepEqual(client.concurrency(), {limit: 1, inFlight: 0, queued: 0});
+    await client.close();
+});
+
+test("Concurrency state is undefined without bulkhead", async t => {
+    const client = await createFetchClient({resilient: true, fetch: mockFetch({})});
+    t.is(client.concurrency(), undefined);
+    await client.close();
+});
+
+test("Adaptive concurrency limit grows on success", async t => {
+    const client = await createFetchClient({
+        parallelRequests: {maxParallelRequests: 2, maxQueuedRequests: 10, adaptive: {}}, 
+        fetch: mockFetch({delay: 50})
+    });
+    await Promise.all(Array.from({length: 6}, () => client.fetch("test")));
+    t.true(client.concurrency().limit > 2);
+    await client.close();
+});
+
+test("Adaptive concurrency limit shrinks on overload", async t => {
+    const client = await createFetchClient({
+        parallelRequests: {maxParallelRequests: 10, maxQueuedRequests: 10, adaptive: {backoffRatio: 0.5, minLimit: 3}}, 
+        fetch: mockFetch({error: [retriedError(), retriedError()]})
+    });
+    await t.throwsAsync(() => client.fetch("test"));
+    t.is(client.concurrency().limit, 5);
+    await t.throwsAsync(() => client.fetch("test"));
+    t.is(client.concurrency().limit, 3);
+    await client.close();
+});
+
+test("Vegas concurrency limit shrinks on overload", async t => {
+    const client = await createFetchClient({
+        parallelRequests: {maxParallelRequests: 10, maxQueuedRequests: 10, adaptive: {algorithm: "vegas"}}, 
+        fetch: mockFetch({error: [retriedError({statusCode: 429})]})
+    });
+    await t.throwsAsync(() => client.fetch("test"));
+    t.is(client.concurrency().limit, 9);
+    await client.close();
+});
+
+test("Adaptive concurrency limiter rejects requests when queue is full", async t => {
+    const client = await createFetchClient({
+        parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 0, adaptive: {maxLimit: 1}}, 
+        fetch: mockFetch({delay: 100})
+    });
+    const rejected = [];
+    client.on("bulkheadRejected", evt => rejected.push(evt));
+    const first = client.fetch("test");
+    await t.throwsAsync(() => client.fetch("test"));
+    await first;
+    t.is(rejected.length, 1);
+    await client.close();
+});
+
+test("Queued requests can be aborted in adaptive mode", async t => {
+    const client = await createFetchClient({
+        parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 1, adaptive: {maxLimit: 1}}, 
+        fetch: mockFetch({delay: 500})
+    });
+    const first = client.fetch("test");
+    const ctrl = new AbortController();
+    const second = client.fetch("test", {signal: ctrl.signal});
+    t.is(client.concurrency().queued, 1);
+    ctrl.abort(new Error("test abort"));
+    await t.throwsAsync(() => second);
+    t.is(client.concurrency().queued, 0);
+    await first;
+    await client.close();
+});
+
+test("Queued requests fail with the abort reason or a library error", async t => {
+    const client = await createFetchClient({
+        parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 2, adaptive: {maxLimit: 1}}, 
+        retries: 1, timeoutTotal: 200,
+        fetch: mockFetch({delay: 400})
+    });
+    const first = client.fetch("test").catch(e => e);
+    const ctrl = new AbortController();
+    const reason = new Error("test abort");
+    const aborted = client.fetch("test", {signal: ctrl.signal});
+    const timedOut = client.fetch("test");
+    ctrl.abort(reason);
+    const abortError = await t.throwsAsync(() => aborted);
+    t.is(abortError, reason);
+    // the total timeout expires while the request is still queued
+    const timeoutError = await t.throwsAsync(() => timedOut);
+    t.true(isFetchClientError(timeoutError, "timeout"));
+    t.is(timeoutError.scope, "total");
+    t.true(isFetchClientError(await first, "timeout"));
+    await client.close();
+});
+
+test("Queued requests are served by priority", async t => {
+    const client = await createFetchClient({parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 10}, fetch: mockFetch({delay: 50})});
+    const order = [];
+    client.on("request", evt => order.push(evt.endpoint));
+    await Promise.all([
+        client.fetch("first"),
+        client.fetch("background", {queuePriority: "background"}),
+        client.fetch("normal"),
+        client.fetch("critical", {queuePriority: "critical"}),
+        client.fetch("normal2", {queuePriority: "normal"})
+    ]);
+    t.deepEqual(order, ["first", "critical", "normal", "normal2", "background"]);
+    await client.close();
+});
+
+test("Queued requests fail after the maximum queue wait", async t => {
+    const client = await createFetchClient({parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 10}, fetch: mockFetch({delay: 300})});
+    const first = client.fetch("test");
+    const error = await t.throwsAsync(() => client.fetch("test", {maxQueueWait: 50}), {instanceOf: QueueTimeoutError});
+    t.true(error.waited >= 40);
+    t.is(client.concurrency().queued, 0);
+    await first;
+    await client.close();
+});
+
+test("Maximum queue wait can be configured client-wide", async t => {
+    const client = await createFetchClient({parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 10, maxQueueWait: 50}, 
+        fetch: mockFetch({delay: 300})});
+    const first = client.fetch("test");
+    await t.throwsAsync(() => client.fetch("test"), {instanceOf: QueueTimeoutError});
+    await first;
+    await client.close();
+});
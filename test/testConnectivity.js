@@ -0,0 +1,122 @@
+import test from "ava";
+import {createFetchClient, OfflineError, QueuedForReplayError} from "../dist/client.js";
+import {mockFetch} from "./helpers/utils.js";
+
+/**
+ * Returns a connectivity monitor whose state is switched via set()
+ */
+function testMonitor(online) {
+    const listeners = new Set();
+    return {
+        online: () => online,
+        subscribe: listener => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        set: value => {
+            online = value;
+            listeners.forEach(l => l(value));
+        }
+    };
+}
+
+/**
+ * Counts the calls to fetch
+ */
+function countingFetch(fetch) {
+    const calls = [];
+    const wrapped = (url, init) => {
+        calls.push(url.toString());
+        return fetch(url, init);
+    };
+    return [wrapped, calls];
+}
+
+test("Requests fail fast while offline", async t => {
+    const monitor = testMonitor(false);
+    const [fetch, calls] = countingFetch(mockFetch());
+    const client = await createFetchClient({connectivity: {monitor: monitor}, retries: 3, timeoutTotal: 60_000, fetch: fetch});
+    t.is(client.connectivity(), monitor);
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: OfflineError});
+    t.is(error.kind, "offline");
+    t.is(error.waited, 0);
+    t.is(calls.length, 0);
+    monitor.set(true);
+    await client.fetch("test");
+    t.is(calls.length, 1);
+    await client.close();
+});
+
+test("Requests are held until the client is online again", async t => {
+    const monitor = testMonitor(false);
+    const [fetch, calls] = countingFetch(mockFetch());
+    const client = await createFetchClient({connectivity: {monitor: monitor, whenOffline: "wait", maxWait: 150}, fetch: fetch});
+    const result = client.fetch("test");
+    await new Promise(resolve => setTimeout(resolve, 50));
+    t.is(calls.length, 0);
+    monitor.set(true);
+    t.is(await (await result).text(), "someString");
+    monitor.set(false);
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: OfflineError});
+    t.true(error.waited >= 100);
+    t.is(calls.length, 1);
+    await client.close();
+});
+
+test("Retries stop when the client goes offline", async t => {
+    const monitor = testMonitor(true);
+    const failing = mockFetch({status: 503});
+    const fetch = (url, init) => {
+        monitor.set(false);
+        return failing(url, init);
+    };
+    const client = await createFetchClient({connectivity: {monitor: monitor}, retries: {maxRetries: 3, initialDelay: 0}, fetch: fetch});
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: OfflineError});
+    t.is(error.waited, 0);
+    await client.close();
+});
+
+test("Probe determines the connectivity state", async t => {
+    let online = false;
+    const [fetch, calls] = countingFetch(mockFetch());
+    const client = await createFetchClient({connectivity: {probe: async () => online, probeInterval: 50}, fetch: fetch});
+    await new Promise(resolve => setTimeout(resolve, 20));
+    t.false(client.connectivity().online());
+    const states = [];
+    client.connectivity().subscribe(state => states.push(state));
+    await t.throwsAsync(() => client.fetch("test"), {instanceOf: OfflineError});
+    online = true;
+    await new Promise(resolve => setTimeout(resolve, 100));
+    t.true(client.connectivity().online());
+    t.deepEqual(states, [true]);
+    await client.fetch("test");
+    t.is(calls.length, 1);
+    await client.close();
+});
+
+test("Stale cache entries are served without a request while offline", async t => {
+    const monitor = testMonitor(true);
+    const [fetch, calls] = countingFetch(mockFetch({result: JSON.stringify({a: 1}), headers: {"Content-Type": "application/json", "Cache-Control": "max-age=0"}}));
+    const client = await createFetchClient({connectivity: {monitor: monitor}, cache: {id: "memory"}, fetch: fetch});
+    const cacheRequestConfig = {useCache: {key: "a1"}};
+    t.deepEqual((await client.fetchJson("test", cacheRequestConfig)).value, {a: 1});
+    await new Promise(resolve => setTimeout(resolve, 10));
+    monitor.set(false);
+    t.deepEqual((await client.fetchJson("test", cacheRequestConfig)).value, {a: 1});
+    t.is(calls.length, 1);
+    await t.throwsAsync(() => client.fetchJson("test", {useCache: {key: "other"}}), {instanceOf: OfflineError});
+    await client.close();
+});
+
+test("Outbox is replayed when the monitor reports the client online", async t => {
+    const monitor = testMonitor(false);
+    const [fetch, calls] = countingFetch(mockFetch());
+    const client = await createFetchClient({connectivity: {monitor: monitor}, outbox: true, fetch: fetch});
+    const error = await t.throwsAsync(() => client.fetch("test", {method: "POST", body: "x"}), {instanceOf: QueuedForReplayError});
+    t.true(error.cause instanceof OfflineError);
+    monitor.set(true);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    t.deepEqual(calls, ["test"]);
+    t.is((await client.outbox().entries()).length, 0);
+    await client.close();
+});
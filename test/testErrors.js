@@ -0,0 +1,79 @@
+import test from "ava";
+import {createFetchClient, isFetchClientError, CircuitOpenError, FetchClientError, HttpError, NetworkError, QueueFullError,
+    RequestTimeoutError} from "../dist/client.js";
+import {mockFetch, retriedError} from "./helpers/utils.js";
+
+function offlineFetch() {
+    return async () => {
+        throw new TypeError("Failed to fetch");
+    };
+}
+
+test("Network errors are reported as NetworkError", async t => {
+    const client = await createFetchClient({fetch: offlineFetch()});
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: NetworkError});
+    t.true(error.cause instanceof TypeError);
+    t.true(isFetchClientError(error, "network"));
+    await client.close();
+});
+
+test("Per-request timeout is reported as RequestTimeoutError", async t => {
+    const client = await createFetchClient({timeoutRequest: 100, fetch: mockFetch({delay: 60_000})});
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: RequestTimeoutError});
+    t.is(error.scope, "request");
+    t.is(error.timeout, 100);
+    await client.close();
+});
+
+test("Total timeout is reported as RequestTimeoutError", async t => {
+    const client = await createFetchClient({retries: 1, timeoutTotal: 100, fetch: mockFetch({delay: 60_000})});
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: RequestTimeoutError});
+    t.is(error.scope, "total");
+    t.true(isFetchClientError(error, "timeout"));
+    t.false(isFetchClientError(error, "http"));
+    await client.close();
+});
+
+test("Open circuit breaker is reported as CircuitOpenError", async t => {
+    const client = await createFetchClient({
+        circuitBreaker: {scope: "origin", default: {openAfterFailedAttempts: 1, halfOpenAfter: 60_000}},
+        fetch: mockFetch({error: retriedError()})
+    });
+    await t.throwsAsync(() => client.fetch("https://failing.example.com/a"), {instanceOf: HttpError});
+    const error = await t.throwsAsync(() => client.fetch("https://failing.example.com/b"), {instanceOf: CircuitOpenError});
+    t.is(error.breaker, "https://failing.example.com");
+    await client.close();
+});
+
+test("Full bulkhead queue is reported as QueueFullError", async t => {
+    const client = await createFetchClient({parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 0}, fetch: mockFetch({delay: [200]})});
+    const first = client.fetch("test");
+    await t.throwsAsync(() => client.fetch("test"), {instanceOf: QueueFullError});
+    await first;
+    await client.close();
+});
+
+test("Exhausted retries fail with the error of the last attempt", async t => {
+    const client = await createFetchClient({retries: {maxRetries: 2, initialDelay: 0}, fetch: mockFetch({error: [retriedError(), retriedError(), retriedError()]})});
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: HttpError});
+    t.true(error instanceof FetchClientError);
+    t.is(error.details.status, 503);
+    t.is(error.attemptErrors.length, 3);
+    t.true(error.attemptErrors.every(e => e instanceof HttpError));
+    t.is(error.attemptErrors[2], error);
+    await client.close();
+});
+
+test("Requests that are not retried carry no attempt errors", async t => {
+    const client = await createFetchClient({retries: {maxRetries: 2, initialDelay: 0}, fetch: mockFetch({error: [retriedError({statusCode: 404})]})});
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: HttpError});
+    t.is(error.attemptErrors, undefined);
+    await client.close();
+});
+
+test("Non-retryable errors are not wrapped", async t => {
+    const client = await createFetchClient({retries: {maxRetries: 2, initialDelay: 0}, fetch: mockFetch({error: [retriedError({statusCode: 404})]})});
+    await t.throwsAsync(() => client.fetch("test"), {instanceOf: HttpError});
+    t.false(isFetchClientError(new Error("test")));
+    await client.close();
+});
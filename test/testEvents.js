@@ -0,0 +1,88 @@
+import test from "ava";
+import {createFetchClient} from "../dist/client.js";
+import {mockFetch, retriedError} from "./helpers/utils.js";
+
+test("Request and response events are emitted by simple client", async t => {
+    const fetch = mockFetch({});
+    const client = await createFetchClient({fetch: fetch});
+    const events = [];
+    client.on("request", evt => events.push(["request", evt]));
+    client.on("response", evt => events.push(["response", evt]));
+    await client.fetch("test", {method: "POST"});
+    t.is(events.length, 2);
+    t.like(events[0], ["request", {endpoint: "test", method: "POST", attempt: 1}]);
+    t.like(events[1], ["response", {endpoint: "test", method: "POST", attempt: 1, status: 200}]);
+    await client.close();
+});
+
+test("Retry events are emitted", async t => {
+    const fetch = mockFetch({error: [retriedError()]});
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0}, fetch: fetch});
+    const retries = [];
+    const requests = [];
+    client.on("retry", evt => retries.push(evt));
+    client.on("request", evt => requests.push(evt));
+    await client.fetch("test");
+    t.is(retries.length, 1);
+    t.like(retries[0], {endpoint: "test", method: "GET", attempt: 2});
+    t.is(retries[0].error?.details?.status, 503);
+    t.deepEqual(requests.map(r => r.attempt), [1, 2]);
+    await client.close();
+});
+
+test("Timeout events are emitted", async t => {
+    const fetch = mockFetch({delay: 5_000});
+    const client = await createFetchClient({timeoutRequest: 10, fetch: fetch});
+    const timeouts = [];
+    client.on("timeout", evt => timeouts.push(evt));
+    await t.throwsAsync(() => client.fetch("test"));
+    t.is(timeouts.length, 1);
+    t.like(timeouts[0], {endpoint: "test", scope: "request", timeout: 10, attempt: 1});
+    await client.close();
+});
+
+test("Circuit breaker events are emitted", async t => {
+    const fetch = mockFetch({error: [retriedError(), retriedError()]});
+    const client = await createFetchClient({
+        circuitBreaker: {openAfterFailedAttempts: 2, halfOpenAfter: 60_000}, 
+        fetch: fetch
+    });
+    const opened = [];
+    client.on("circuitOpen", evt => opened.push(evt));
+    await t.throwsAsync(() => client.fetch("test1"));
+    t.is(opened.length, 0);
+    await t.throwsAsync(() => client.fetch("test2"));
+    t.is(opened.length, 1);
+    t.like(opened[0], {endpoint: "test2", method: "GET", attempt: 1});
+    await client.close();
+});
+
+test("Bulkhead rejected events are emitted", async t => {
+    const fetch = mockFetch({delay: [60_000, 1]});
+    const client = await createFetchClient({
+        parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 0},
+        fetch: fetch
+    });
+    const rejected = [];
+    client.on("bulkheadRejected", evt => rejected.push(evt));
+    const ctrl = new AbortController();
+    const req1 = client.fetch("test1", {signal: ctrl.signal}).catch(() => undefined);
+    await t.throwsAsync(() => client.fetch("test2", {signal: ctrl.signal}));
+    t.is(rejected.length, 1);
+    t.like(rejected[0], {endpoint: "test2", attempt: 1});
+    ctrl.abort();
+    await req1;
+    await client.close();
+});
+
+test("Listeners can be removed", async t => {
+    const fetch = mockFetch({});
+    const client = await createFetchClient({fetch: fetch});
+    let cnt = 0;
+    const unsubscribe = client.on("request", () => cnt++);
+    await client.fetch("");
+    unsubscribe();
+    await client.fetch("");
+    t.is(cnt, 1);
+    await client.close();
+});
@@ -0,0 +1,96 @@
+import test from "ava";
+import {createFetchClient, HttpError, NetworkError} from "../dist/client.js";
+import {mockFetch} from "./helpers/utils.js";
+
+/**
+ * Counts the calls to fetch
+ */
+function countingFetch(fetch) {
+    const calls = [];
+    const wrapped = (url, init) => {
+        calls.push((init?.method || "GET") + " " + url.toString());
+        return fetch(url, init);
+    };
+    return [wrapped, calls];
+}
+
+const jsonFetch = () => mockFetch({result: JSON.stringify({a: 1, b: "test"}), headers: {"Content-Type": "application/json"}});
+
+test("Scripted network errors are retried", async t => {
+    const [fetch, calls] = countingFetch(mockFetch());
+    const client = await createFetchClient({retries: {maxRetries: 2, initialDelay: 0}, fetch: fetch,
+        faults: {rules: [{fault: {type: "networkError"}, requests: [1, 2]}]}});
+    const retries = [];
+    client.on("retry", evt => retries.push(evt.error));
+    t.is(await (await client.fetch("test")).text(), "someString");
+    t.is(calls.length, 1);
+    t.is(retries.length, 2);
+    t.true(retries.every(e => e instanceof NetworkError));
+    await client.close();
+});
+
+test("Status faults carry a Retry-After header", async t => {
+    const [fetch, calls] = countingFetch(mockFetch());
+    const client = await createFetchClient({fetch: fetch, faults: {rules: [{fault: {type: "status", status: 503, retryAfter: 2}}]}});
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: HttpError});
+    t.is(error.details.status, 503);
+    t.is(error.details.headers.get("Retry-After"), "2");
+    t.is(calls.length, 0);
+    await client.close();
+});
+
+test("Faults are selected by url and method", async t => {
+    const [fetch, calls] = countingFetch(mockFetch());
+    const client = await createFetchClient({baseUrl: "https://example.com/api", fetch: fetch, faults: {rules: [
+        {fault: {type: "status", status: 500}, url: "/orders", methods: ["post"]},
+        {fault: {type: "networkError"}, url: /\/items\/\d+$/}
+    ]}});
+    await client.fetch("orders");
+    await t.throwsAsync(() => client.fetch("orders", {method: "POST", body: "{}"}), {instanceOf: HttpError});
+    // the method of a Request object applies as well
+    await t.throwsAsync(() => client.fetch(new Request("https://example.com/api/orders", {method: "POST", body: "{}"})), {instanceOf: HttpError});
+    await client.fetch("customers", {method: "POST", body: "{}"});
+    await client.fetch("items");
+    await t.throwsAsync(() => client.fetch("items/3"), {instanceOf: NetworkError});
+    t.deepEqual(calls, ["GET https://example.com/api/orders", "POST https://example.com/api/customers", "GET https://example.com/api/items"]);
+    await client.close();
+});
+
+test("Latency is added to requests", async t => {
+    const client = await createFetchClient({fetch: mockFetch(), faults: {rules: [{fault: {type: "latency", delay: 150}}]}});
+    const start = Date.now();
+    await client.fetch("test");
+    t.true(Date.now() - start >= 140);
+    await client.close();
+});
+
+test("Response faults corrupt the body and content type", async t => {
+    const client = await createFetchClient({fetch: jsonFetch(), faults: {rules: [
+        {fault: {type: "contentType"}, requests: [1]},
+        {fault: {type: "truncatedBody"}, requests: [2]},
+        {fault: {type: "truncatedBody", bytes: 5, fail: false}, requests: [3]}
+    ]}});
+    const error = await t.throwsAsync(() => client.fetchJson("test"), {instanceOf: HttpError});
+    t.is(error.details.cause, "contentType");
+    t.is(error.details.value, "text/html");
+    await t.throwsAsync(async () => (await client.fetch("test")).text());
+    t.is(await (await client.fetch("test")).text(), "{\"a\":");
+    t.deepEqual((await client.fetchJson("test")).value, {a: 1, b: "test"});
+    await client.close();
+});
+
+test("Probabilistic faults are reproducible with a seed", async t => {
+    const statuses = async seed => {
+        const client = await createFetchClient({fetch: mockFetch(),
+            faults: {seed: seed, rules: [{fault: {type: "status", status: 500}, probability: 0.5}]}});
+        const result = [];
+        for (let idx = 0; idx < 20; idx++)
+            result.push((await client.fetch("test", {skipFailOnErrorCode: true})).status);
+        await client.close();
+        return result;
+    };
+    const first = await statuses(42);
+    t.deepEqual(await statuses(42), first);
+    t.true(first.indexOf(200) >= 0);
+    t.true(first.indexOf(500) >= 0);
+});
@@ -0,0 +1,96 @@
+import test from "ava";
+import {createFetchClient, HttpError, NetworkError} from "../dist/client.js";
+import {createHarRecorder, createHarReplay} from "../dist/har.js";
+import {mockFetch} from "./helpers/utils.js";
+
+const jsonHeaders = {"Content-Type": "application/json"};
+
+test("Requests and retries are recorded", async t => {
+    const recorder = createHarRecorder();
+    const client = await createFetchClient({baseUrl: "https://example.com/api", retries: {maxRetries: 1, initialDelay: 0}, recorder: recorder,
+        fetch: mockFetch({status: [503, 200], result: ["unavailable", JSON.stringify({id: 1})], headers: jsonHeaders})});
+    const result = await client.fetchJson("orders?limit=5", {method: "PUT", body: JSON.stringify({item: "a"}), headers: jsonHeaders});
+    t.deepEqual(result.value, {id: 1});
+    const har = await recorder.export();
+    t.is(har.log.version, "1.2");
+    t.is(har.log.creator.name, "resilient-fetch-client");
+    const entries = har.log.entries;
+    t.is(entries.length, 2);
+    t.deepEqual(entries.map(e => e._attempt), [1, 2]);
+    t.deepEqual(entries.map(e => e.response.status), [503, 200]);
+    const request = entries[1].request;
+    t.is(request.method, "PUT");
+    t.is(request.url, "https://example.com/api/orders?limit=5");
+    t.deepEqual(request.queryString, [{name: "limit", value: "5"}]);
+    t.deepEqual(request.postData, {mimeType: "application/json", text: "{\"item\":\"a\"}"});
+    t.is(entries[1].response.content.text, "{\"id\":1}");
+    t.is(entries[1].response.content.mimeType, "application/json");
+    t.true(entries[1].time >= entries[1].timings.wait);
+    t.true(!isNaN(Date.parse(entries[0].startedDateTime)));
+    recorder.clear();
+    t.is((await recorder.export()).log.entries.length, 0);
+    await client.close();
+});
+
+test("Network errors are recorded with status 0 and replayed", async t => {
+    const recorder = createHarRecorder();
+    const recording = await createFetchClient({baseUrl: "https://example.com", recorder: recorder, fetch: mockFetch({error: new TypeError("Failed to fetch")})});
+    await t.throwsAsync(() => recording.fetch("test"), {instanceOf: NetworkError});
+    const har = await recorder.export();
+    t.is(har.log.entries[0].response.status, 0);
+    t.is(har.log.entries[0].response._error, "Failed to fetch");
+    const client = await createFetchClient({baseUrl: "https://example.com", fetch: createHarReplay(har)});
+    await t.throwsAsync(() => client.fetch("test"), {instanceOf: NetworkError});
+});
+
+test("Recorded sessions are replayed in order", async t => {
+    const recorder = createHarRecorder();
+    const recording = await createFetchClient({baseUrl: "https://example.com", retries: {maxRetries: 1, initialDelay: 0}, recorder: recorder,
+        fetch: mockFetch({status: [500, 200, 200], result: ["error", JSON.stringify({a: 1}), JSON.stringify({b: 2})], headers: jsonHeaders})});
+    await recording.fetchJson("a");
+    await recording.fetchJson("b");
+    // the HAR file survives serialization
+    const har = JSON.parse(JSON.stringify(await recorder.export()));
+    const client = await createFetchClient({baseUrl: "https://example.com", retries: {maxRetries: 1, initialDelay: 0}, fetch: createHarReplay(har)});
+    const retries = [];
+    client.on("retry", evt => retries.push(evt.error));
+    t.deepEqual((await client.fetchJson("a")).value, {a: 1});
+    t.is(retries.length, 1);
+    t.true(retries[0] instanceof HttpError);
+    t.deepEqual((await client.fetchJson("b")).value, {b: 2});
+    // the last matching response is repeated
+    t.deepEqual((await client.fetchJson("a")).value, {a: 1});
+    t.is(retries.length, 1);
+});
+
+const entry = (method, url, body, result) => ({
+    startedDateTime: new Date().toISOString(), time: 0, cache: {}, timings: {send: 0, wait: 0, receive: 0},
+    request: {method: method, url: url, httpVersion: "", cookies: [], headers: [], queryString: [], headersSize: -1, bodySize: -1,
+        postData: body ? {mimeType: "text/plain", text: body} : undefined},
+    response: {status: 200, statusText: "OK", httpVersion: "", cookies: [], headers: [{name: "Content-Type", value: "text/plain"}],
+        content: {size: result.length, mimeType: "text/plain", text: result}, redirectURL: "", headersSize: -1, bodySize: -1}
+});
+
+test("Requests are matched by method, query and body", async t => {
+    const har = {log: {version: "1.2", creator: {name: "test", version: "1"}, entries: [
+        entry("GET", "https://example.com/items?a=1&b=2&ts=1", undefined, "get items"),
+        entry("POST", "https://example.com/items", "first", "first item"),
+        entry("POST", "https://example.com/items", "second", "second item")
+    ]}};
+    const client = await createFetchClient({baseUrl: "https://example.com", 
+        fetch: createHarReplay(har, {match: {body: true, ignoreQueryParams: ["ts"]}})});
+    t.is(await (await client.fetch("items?b=2&a=1&ts=2")).text(), "get items");
+    t.is(await (await client.fetch("items", {method: "POST", body: "second"})).text(), "second item");
+    t.is(await (await client.fetch("items", {method: "POST", body: "first"})).text(), "first item");
+    await t.throwsAsync(() => client.fetch("items", {method: "POST", body: "third"}), {message: /No recorded response for POST/});
+    await t.throwsAsync(() => client.fetch("items?a=2&b=2"));
+    await t.throwsAsync(() => client.fetch("items?b=2&a=1&ts=2", {method: "DELETE"}));
+});
+
+test("Unmatched requests pass through if configured", async t => {
+    const har = {log: {version: "1.2", creator: {name: "test", version: "1"}, entries: [entry("GET", "https://example.com/a", undefined, "recorded")]}};
+    const client = await createFetchClient({baseUrl: "https://example.com", 
+        fetch: createHarReplay(har, {unmatched: "passThrough", fetch: mockFetch({result: "live"})})});
+    t.is(await (await client.fetch("a")).text(), "recorded");
+    t.is(await (await client.fetch("b")).text(), "live");
+});
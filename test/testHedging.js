@@ -0,0 +1,110 @@
+import test from "ava";
+import {createFetchClient} from "../dist/client.js";
+import {mockFetch} from "./helpers/utils.js";
+
+function recordingFetch(fetch) {
+    const signals = [];
+    const wrapped = (url, init) => {
+        signals.push(init?.signal);
+        return fetch(url, init);
+    };
+    return [wrapped, signals];
+}
+
+test("Hedged request is sent after delay and wins", async t => {
+    const [fetch, signals] = recordingFetch(mockFetch({delay: [2_000, 0], result: ["slow", "fast"]}));
+    const client = await createFetchClient({hedging: {delay: 50}, fetch: fetch});
+    const hedges = [];
+    client.on("hedge", evt => hedges.push(evt));
+    const start = Date.now();
+    const result = await (await client.fetch("test")).text();
+    t.is(result, "fast");
+    t.true(Date.now() - start < 1_000);
+    t.is(signals.length, 2);
+    t.true(signals[0].aborted, "Losing request should be aborted");
+    t.is(hedges.length, 1);
+    t.like(hedges[0], {endpoint: "test", method: "GET", attempt: 1, delay: 50});
+    await client.close();
+});
+
+test("No hedged request is sent for fast responses", async t => {
+    const [fetch, signals] = recordingFetch(mockFetch({}));
+    const client = await createFetchClient({hedging: {delay: 200}, fetch: fetch});
+    await client.fetch("test");
+    await new Promise(resolve => setTimeout(resolve, 250));
+    t.is(signals.length, 1);
+    await client.close();
+});
+
+test("Hedging does not apply to non-idempotent methods", async t => {
+    const [fetch, signals] = recordingFetch(mockFetch({delay: [200]}));
+    const client = await createFetchClient({hedging: {delay: 20}, fetch: fetch});
+    await client.fetch("test", {method: "POST"});
+    t.is(signals.length, 1);
+    await client.close();
+});
+
+test("PUT and DELETE requests are not hedged", async t => {
+    const [fetch, signals] = recordingFetch(mockFetch({delay: 200}));
+    const client = await createFetchClient({hedging: {delay: 20}, fetch: fetch});
+    await client.fetch("test", {method: "PUT", body: "a"});
+    t.is(signals.length, 1);
+    await client.fetch("test", {method: "DELETE", hedging: {delay: 20}});
+    t.is(signals.length, 2);
+    await client.close();
+});
+
+test("Hedging can be configured per request", async t => {
+    const [fetch, signals] = recordingFetch(mockFetch({delay: [200, 0, 200]}));
+    const client = await createFetchClient({resilient: true, fetch: fetch});
+    await client.fetch("test", {hedging: {delay: 20}});
+    t.is(signals.length, 2);
+    const client2 = await createFetchClient({hedging: {delay: 20}, fetch: fetch});
+    await client2.fetch("test", {hedging: false});
+    t.is(signals.length, 3);
+    await client.close();
+    await client2.close();
+});
+
+test("Hedged requests count against the retry budget", async t => {
+    const [fetch, signals] = recordingFetch(mockFetch({delay: [200]}));
+    const client = await createFetchClient({hedging: {delay: 20}, retryBudget: {maxTokens: 0}, fetch: fetch});
+    await client.fetch("test");
+    t.is(signals.length, 1);
+    await client.close();
+});
+
+test("Hedging delay is learned from latencies", async t => {
+    const delays = [...Array.from({length: 10}, () => 0), 2_000, 0];
+    const [fetch, signals] = recordingFetch(mockFetch({delay: delays}));
+    const client = await createFetchClient({hedging: {delay: 10_000, percentile: 90}, fetch: fetch});
+    for (let idx = 0; idx < 10; idx++)
+        await client.fetch("test");
+    const start = Date.now();
+    await client.fetch("test");
+    t.true(Date.now() - start < 1_000);
+    t.is(signals.length, 12);
+    await client.close();
+});
+
+test("Hedged requests get their own headers and signal", async t => {
+    const inits = [];
+    const fetch = mockFetch({delay: [200, 0]});
+    const client = await createFetchClient({hedging: {delay: 20}, defaultHeaders: {"X-Client": "test"}, fetch: (url, init) => {
+        inits.push(init);
+        return fetch(url, init);
+    }});
+    await client.fetch("test", {headers: {Accept: "text/plain"}});
+    t.is(inits.length, 2);
+    t.not(inits[0], inits[1]);
+    t.not(inits[0].headers, inits[1].headers);
+    t.not(inits[0].signal, inits[1].signal);
+    for (const init of inits) {
+        const headers = new Headers(init.headers);
+        t.is(headers.get("X-Client"), "test");
+        t.is(headers.get("Accept"), "text/plain");
+    }
+    t.true(inits[0].signal.aborted);
+    t.false(inits[1].signal.aborted);
+    await client.close();
+});
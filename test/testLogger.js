@@ -0,0 +1,106 @@
+import test from "ava";
+import {registerCacheProvider} from "../dist/cache.js";
+import {createFetchClient} from "../dist/client.js";
+import {mockFetch} from "./helpers/utils.js";
+
+/**
+ * Records all messages logged
+ */
+function recordingLogger() {
+    const messages = [];
+    const logger = {};
+    for (const level of ["debug", "info", "warn", "error"])
+        logger[level] = (message, fields) => messages.push({level: level, message: message, fields: fields});
+    return [logger, messages];
+}
+
+test.before(t => registerCacheProvider("failingWrites", async config => ({
+    cacheId: () => "failingWrites",
+    create: async table => ({
+        cacheId: () => "failingWrites",
+        tableId: () => table,
+        config: () => config,
+        available: () => true,
+        get: async () => undefined,
+        set: async () => { throw new Error("Quota exceeded"); },
+        close: async () => undefined
+    })
+})));
+
+test("Retries are logged with structured fields", async t => {
+    const [logger, messages] = recordingLogger();
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0}, logger: logger, fetch: mockFetch({status: [503, 200]})});
+    await client.fetch("https://example.com/test");
+    // debug messages are dropped by default
+    t.deepEqual(messages.map(m => m.message), ["Retrying request"]);
+    const [retry] = messages;
+    t.is(retry.level, "info");
+    t.is(retry.fields.endpoint, "https://example.com/test");
+    t.is(retry.fields.method, "GET");
+    t.is(retry.fields.attempt, 2);
+    t.is(retry.fields.error.details.status, 503);
+    await client.close();
+});
+
+test("Sensitive headers are redacted", async t => {
+    const [logger, messages] = recordingLogger();
+    const client = await createFetchClient({logger: {logger: logger, level: "debug"}, fetch: mockFetch()});
+    await client.fetch("https://example.com/test", {headers: {Authorization: "Bearer secret", Cookie: "session=secret", "X-Request-Id": "abc"}});
+    const sending = messages.find(m => m.message === "Sending request");
+    t.is(sending.level, "debug");
+    t.deepEqual(sending.fields.headers, {authorization: "[REDACTED]", cookie: "[REDACTED]", "x-request-id": "abc"});
+    t.truthy(messages.find(m => m.message === "Response received" && m.fields.status === 200));
+    t.truthy(messages.find(m => m.message === "Request completed"));
+    await client.close();
+    const [logger2, messages2] = recordingLogger();
+    const client2 = await createFetchClient({logger: {logger: logger2, level: "debug", redactHeaders: ["X-Request-Id"]}, fetch: mockFetch()});
+    await client2.fetch("https://example.com/test", {headers: {Authorization: "Bearer token", "X-Request-Id": "abc"}});
+    // custom headers extend the default list
+    t.deepEqual(messages2.find(m => m.message === "Sending request").fields.headers, {authorization: "[REDACTED]", "x-request-id": "[REDACTED]"});
+    await client2.close();
+    const [logger3, messages3] = recordingLogger();
+    const client3 = await createFetchClient({logger: {logger: logger3, level: "debug", redactDefaultHeaders: false}, fetch: mockFetch()});
+    await client3.fetch("https://example.com/test", {headers: {Authorization: "Bearer token"}});
+    t.deepEqual(messages3.find(m => m.message === "Sending request").fields.headers, {authorization: "Bearer token"});
+    await client3.close();
+});
+
+test("Response headers of logged errors are redacted", async t => {
+    const [logger, messages] = recordingLogger();
+    let calls = 0;
+    const fetch = async () => ++calls === 1 ? 
+        new Response("unavailable", {status: 503, headers: {"Set-Cookie": "session=secret", "X-Backend": "b1"}}) : new Response("ok");
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0}, logger: logger, fetch: fetch});
+    await client.fetch("https://example.com/test");
+    const retry = messages.find(m => m.message === "Retrying request");
+    t.is(retry.fields.error.kind, "http");
+    t.is(retry.fields.error.details.status, 503);
+    t.deepEqual(retry.fields.error.details.headers, {"set-cookie": "[REDACTED]", "x-backend": "b1", "content-type": "text/plain;charset=UTF-8"});
+    t.false(JSON.stringify(messages).includes("secret"));
+    await client.close();
+});
+
+test("Failed cache writes are logged", async t => {
+    const [logger, messages] = recordingLogger();
+    const client = await createFetchClient({cache: {id: "failingWrites"}, logger: logger,
+        fetch: mockFetch({result: JSON.stringify({a: 1}), headers: {"Content-Type": "application/json"}})});
+    const result = await client.fetchJson("https://example.com/test", {useCache: {mode: "cacheControl", table: "Test", key: "a", defaultCacheControl: {maxAge: true}}});
+    t.deepEqual(result.value, {a: 1});
+    await client.close();
+    const failure = messages.find(m => m.message === "Failed to write object to cache");
+    t.is(failure.level, "error");
+    t.is(failure.fields.cacheId, "failingWrites");
+    t.is(failure.fields.table, "Test");
+    t.is(failure.fields.key, "a");
+    t.is(failure.fields.error.message, "Quota exceeded");
+});
+
+test("Exceptions thrown by the logger are ignored", async t => {
+    const fail = () => { throw new Error("Logger failure"); };
+    const logger = {debug: fail, info: fail, warn: fail, error: fail};
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0}, logger: {logger: logger, level: "debug"},
+        fetch: mockFetch({status: [503, 200]})});
+    const resp = await client.fetch("https://example.com/test");
+    t.is(resp.status, 200);
+    await client.close();
+});
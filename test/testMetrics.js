@@ -0,0 +1,89 @@
+import test from "ava";
+import {createFetchClient} from "../dist/client.js";
+import {createMetricsRegistry, toOpenMetrics} from "../dist/metrics.js";
+import {mockFetch} from "./helpers/utils.js";
+
+const metric = (registry, name) => registry.snapshot().metrics.find(m => m.name === "fetch_client_" + name);
+const sample = (registry, name, labels) => metric(registry, name).samples.find(s => Object.keys(labels).every(key => s.labels[key] === labels[key]));
+const userRoute = endpoint => endpoint.replace(/\/\d+$/, "/{id}");
+
+test("Requests are counted by route and status class", async t => {
+    const registry = createMetricsRegistry({route: userRoute});
+    const client = await createFetchClient({metrics: registry, retries: {maxRetries: 1, initialDelay: 0}, 
+        fetch: mockFetch({status: [503, 200, 200, 404]})});
+    await client.fetch("users/1");
+    await client.fetch("users/2");
+    await t.throwsAsync(() => client.fetch("items"));
+    t.is(sample(registry, "requests", {route: "users/{id}", status: "2xx"}).value, 2);
+    t.is(sample(registry, "requests", {route: "items", status: "4xx"}).value, 1);
+    t.is(sample(registry, "retries", {route: "users/{id}", method: "GET"}).value, 1);
+    const duration = sample(registry, "request_duration_seconds", {route: "users/{id}"});
+    t.is(duration.count, 2);
+    t.is(duration.buckets[duration.buckets.length - 1].le, Infinity);
+    t.is(duration.buckets[duration.buckets.length - 1].count, 2);
+    t.is(sample(registry, "attempt_duration_seconds", {route: "users/{id}", attempt: "first"}).count, 2);
+    t.is(sample(registry, "attempt_duration_seconds", {route: "users/{id}", attempt: "last"}).count, 2);
+    registry.reset();
+    t.is(metric(registry, "requests").samples.length, 0);
+    await client.close();
+});
+
+test("Failures without response, timeouts and circuit transitions are counted", async t => {
+    const registry = createMetricsRegistry();
+    const client = await createFetchClient({metrics: registry, timeoutRequest: 100, 
+        circuitBreaker: {openAfterFailedAttempts: 1, halfOpenAfter: 60_000}, fetch: mockFetch({delay: 1_000})});
+    await t.throwsAsync(() => client.fetch("test?a=1"));
+    await t.throwsAsync(() => client.fetch("test"));
+    t.is(sample(registry, "requests", {route: "test", status: "error"}).value, 2);
+    t.is(sample(registry, "timeouts", {route: "test", scope: "request"}).value, 1);
+    t.is(sample(registry, "circuit_transitions", {state: "open"}).value, 1);
+    // the second request has never been sent
+    t.is(sample(registry, "attempt_duration_seconds", {attempt: "first"}).count, 1);
+    await client.close();
+});
+
+test("Bulkhead queue waits are recorded", async t => {
+    const registry = createMetricsRegistry({buckets: [50, 10_000]});
+    const client = await createFetchClient({metrics: registry, parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 1}, 
+        fetch: mockFetch({delay: 150})});
+    const results = [client.fetch("a"), client.fetch("b"), client.fetch("c")];
+    await Promise.allSettled(results);
+    const wait = sample(registry, "bulkhead_queue_wait_seconds", {route: "b"});
+    t.is(wait.count, 1);
+    t.deepEqual(wait.buckets.map(b => b.count), [0, 1, 1]);
+    t.true(wait.sum >= 0.1);
+    t.is(sample(registry, "bulkhead_rejections", {route: "c"}).value, 1);
+    await client.close();
+});
+
+test("Cache hits and misses are counted", async t => {
+    const registry = createMetricsRegistry();
+    const client = await createFetchClient({metrics: registry, cache: {id: "memory"}, 
+        fetch: mockFetch({result: JSON.stringify({a: 1}), headers: {"Content-Type": "application/json"}})});
+    const useCache = {useCache: {key: "a1", defaultCacheControl: {maxAge: true}}};
+    await client.fetchJson("test", useCache);
+    await new Promise(resolve => setTimeout(resolve, 50));  // cache write
+    await client.fetchJson("test", useCache);
+    await client.fetchJson("test", useCache);
+    t.is(sample(registry, "cache_requests", {route: "test", result: "miss"}).value, 1);
+    t.is(sample(registry, "cache_requests", {route: "test", result: "hit"}).value, 2);
+    t.is(sample(registry, "requests", {route: "test", status: "2xx"}).value, 1);
+    await client.close();
+});
+
+test("Snapshots are serialized in the OpenMetrics format", async t => {
+    const registry = createMetricsRegistry({buckets: [100, 1_000]});
+    const client = await createFetchClient({metrics: registry, fetch: mockFetch()});
+    await client.fetch("orders", {method: "POST", body: "{}"});
+    const text = toOpenMetrics(registry.snapshot());
+    const lines = text.split("\n");
+    t.true(lines.indexOf("# TYPE fetch_client_requests counter") >= 0);
+    t.true(lines.indexOf("fetch_client_requests_total{route=\"orders\",method=\"POST\",status=\"2xx\"} 1") >= 0);
+    t.true(lines.indexOf("# TYPE fetch_client_request_duration_seconds histogram") >= 0);
+    t.true(lines.indexOf("# UNIT fetch_client_request_duration_seconds seconds") >= 0);
+    t.true(lines.indexOf("fetch_client_request_duration_seconds_bucket{route=\"orders\",method=\"POST\",le=\"1\"} 1") >= 0);
+    t.true(lines.indexOf("fetch_client_request_duration_seconds_bucket{route=\"orders\",method=\"POST\",le=\"+Inf\"} 1") >= 0);
+    t.true(lines.indexOf("fetch_client_request_duration_seconds_count{route=\"orders\",method=\"POST\"} 1") >= 0);
+    t.true(text.endsWith("# EOF\n"));
+    await client.close();
+});
@@ -0,0 +1,85 @@
+import test from "ava";
+import {createFetchClient, NetworkError} from "../dist/client.js";
+import {mockFetch, retriedError} from "./helpers/utils.js";
+
+/**
+ * Records the headers of all requests sent
+ */
+function recordingFetch(fetch) {
+    const headers = [];
+    const wrapped = (url, init) => {
+        headers.push(new Headers(init?.headers));
+        return fetch(url, init);
+    };
+    return [wrapped, headers];
+}
+
+test("Middleware is applied to every attempt", async t => {
+    const [fetch, headers] = recordingFetch(mockFetch({error: [retriedError(), retriedError()]}));
+    const contexts = [];
+    const client = await createFetchClient({
+        retries: {maxRetries: 2, initialDelay: 0},
+        defaultHeaders: {"X-Default": "default"},
+        middleware: [{beforeRequest: (request, context) => {
+            contexts.push({...context});
+            request.headers.append("X-Attempt", String(context.attempt));
+        }}],
+        fetch: fetch
+    });
+    await client.fetch("test");
+    t.deepEqual(headers.map(h => h.get("X-Attempt")), ["1", "2", "3"]);
+    t.true(headers.every(h => h.get("X-Default") === "default"));
+    t.like(contexts[2], {endpoint: "test", method: "GET", attempt: 3});
+    await client.close();
+});
+
+test("Middleware hooks are called in order", async t => {
+    const calls = [];
+    const middleware = name => ({
+        beforeRequest: () => {calls.push(name + ".beforeRequest");},
+        afterResponse: () => {calls.push(name + ".afterResponse");}
+    });
+    const client = await createFetchClient({middleware: [middleware("a"), middleware("b")], fetch: mockFetch()});
+    await client.fetch("test");
+    t.deepEqual(calls, ["a.beforeRequest", "b.beforeRequest", "b.afterResponse", "a.afterResponse"]);
+    await client.close();
+});
+
+test("Middleware can replace the response before the status code is evaluated", async t => {
+    const client = await createFetchClient({
+        middleware: [{afterResponse: response => response.status === 404 ? new Response("fallback") : undefined}],
+        fetch: mockFetch({status: 404})
+    });
+    const response = await client.fetch("test");
+    t.is(await response.text(), "fallback");
+    await client.close();
+});
+
+test("Middleware can recover from errors", async t => {
+    const errors = [];
+    const client = await createFetchClient({
+        middleware: [{onError: error => {
+            errors.push(error);
+            return new Response("offline");
+        }}],
+        fetch: async () => {throw new TypeError("Failed to fetch");}
+    });
+    const response = await client.fetch("test");
+    t.is(await response.text(), "offline");
+    t.true(errors[0] instanceof NetworkError);
+    await client.close();
+});
+
+test("Middleware context provides the cache state", async t => {
+    const contexts = [];
+    const client = await createFetchClient({
+        cache: {id: "memory"},
+        middleware: [{beforeRequest: (_, context) => {contexts.push(context.cache);}}],
+        fetch: mockFetch({result: JSON.stringify({a: 1}), headers: {"Content-Type": "application/json"}})
+    });
+    const cacheRequestConfig = {useCache: {mode: "cacheControl", key: "mw1", defaultCacheControl: {noCache: true}}};
+    await client.fetchJson("test", cacheRequestConfig);
+    await client.fetchJson("test", cacheRequestConfig);
+    t.deepEqual(contexts, [{key: "mw1", state: "miss"}, {key: "mw1", state: "stale"}]);
+    await client.close();
+});
@@ -0,0 +1,128 @@
+import test from "ava";
+import {createFetchClient, NetworkError, QueuedForReplayError} from "../dist/client.js";
+import {createOutboxStore} from "../dist/cache.js";
+
+/**
+ * Returns a fetch mock that fails with a network error while offline, and records the requests received otherwise
+ */
+function switchableFetch(statusCodes) {
+    const state = {online: false, received: []};
+    let cnt = 0;
+    state.fetch = async (url, init) => {
+        if (!state.online)
+            throw new TypeError("Failed to fetch");
+        const body = init?.body ? await new Response(init.body).text() : undefined;
+        state.received.push({url: url.toString(), method: init?.method, body: body, contentType: new Headers(init?.headers).get("Content-Type")});
+        return new Response("ok", {status: statusCodes?.[cnt++] || 200});
+    };
+    return state;
+}
+
+test("Failed mutations are queued and replayed in order", async t => {
+    const server = switchableFetch();
+    const client = await createFetchClient({baseUrl: "https://example.com", outbox: true, fetch: server.fetch});
+    const error = await t.throwsAsync(() => client.fetch("items", {method: "POST", body: JSON.stringify({a: 1}),
+        headers: {"Content-Type": "application/json"}}), {instanceOf: QueuedForReplayError});
+    t.true(error.cause instanceof NetworkError);
+    t.is(error.entry.url, "items");
+    await t.throwsAsync(() => client.fetch("items/1", {method: "DELETE"}), {instanceOf: QueuedForReplayError});
+    t.is((await client.outbox().entries()).length, 2);
+    t.deepEqual(await client.outbox().replay(), {replayed: 0, discarded: 0, remaining: 2});
+    server.online = true;
+    t.deepEqual(await client.outbox().replay(), {replayed: 2, discarded: 0, remaining: 0});
+    t.deepEqual(server.received, [
+        {url: "https://example.com/items", method: "POST", body: "{\"a\":1}", contentType: "application/json"},
+        {url: "https://example.com/items/1", method: "DELETE", body: undefined, contentType: null}
+    ]);
+    t.is((await client.outbox().entries()).length, 0);
+    await client.close();
+});
+
+test("Only mutations failing with a network error are queued", async t => {
+    const server = switchableFetch();
+    const client = await createFetchClient({outbox: true, fetch: server.fetch});
+    await t.throwsAsync(() => client.fetch("items"), {instanceOf: NetworkError});
+    await t.throwsAsync(() => client.fetch("items", {method: "PUT", body: "x", outbox: false}), {instanceOf: NetworkError});
+    t.is((await client.outbox().entries()).length, 0);
+    await client.close();
+});
+
+test("Outbox hooks are called for conflicts and when giving up", async t => {
+    const server = switchableFetch([409, 400]);
+    const conflicts = [];
+    const givenUp = [];
+    const client = await createFetchClient({
+        outbox: {
+            onConflict: (entry, error) => {
+                conflicts.push([entry.url, error.details.status]);
+                return false;
+            },
+            onGiveUp: (entry, error) => givenUp.push([entry.url, error.details.status])
+        },
+        fetch: server.fetch
+    });
+    await t.throwsAsync(() => client.fetch("a", {method: "PUT", body: "a"}), {instanceOf: QueuedForReplayError});
+    await t.throwsAsync(() => client.fetch("b", {method: "PUT", body: "b"}), {instanceOf: QueuedForReplayError});
+    server.online = true;
+    t.deepEqual(await client.outbox().replay(), {replayed: 0, discarded: 2, remaining: 0});
+    t.deepEqual(conflicts, [["a", 409]]);
+    t.deepEqual(givenUp, [["b", 400]]);
+    await client.close();
+});
+
+test("Replayed requests pass through the resilience policies", async t => {
+    const server = switchableFetch([503]);
+    const client = await createFetchClient({outbox: true, retries: {maxRetries: 1, initialDelay: 0, retryPosts: true}, fetch: server.fetch});
+    await t.throwsAsync(() => client.fetch("a", {method: "POST", body: "a"}), {instanceOf: QueuedForReplayError});
+    server.online = true;
+    t.deepEqual(await client.outbox().replay(), {replayed: 1, discarded: 0, remaining: 0});
+    t.is(server.received.length, 2);
+    await client.close();
+});
+
+test("Outbox can be persisted in a cache provider", async t => {
+    const server = switchableFetch();
+    const store = createOutboxStore({id: "memory"});
+    const client = await createFetchClient({outbox: {store: store}, fetch: server.fetch});
+    await t.throwsAsync(() => client.fetch("a", {method: "POST", body: "a"}), {instanceOf: QueuedForReplayError});
+    await client.close();
+    const entries = await store.load();
+    t.is(entries.length, 1);
+    t.is(new TextDecoder().decode(entries[0].body), "a");
+    server.online = true;
+    const client2 = await createFetchClient({outbox: {store: store}, fetch: server.fetch});
+    t.deepEqual(await client2.outbox().replay(), {replayed: 1, discarded: 0, remaining: 0});
+    t.is(server.received[0].body, "a");
+    await client2.close();
+});
+
+test("Queued requests are not evicted from a cache provider", async t => {
+    const server = switchableFetch();
+    const store = createOutboxStore({id: "memory", maxItems: 1});
+    const client = await createFetchClient({outbox: {store: store}, fetch: server.fetch});
+    for (const body of ["a", "b", "c"])
+        await t.throwsAsync(() => client.fetch("test", {method: "POST", body: body}), {instanceOf: QueuedForReplayError});
+    t.is((await client.outbox().entries()).length, 3);
+    await client.close();
+    t.throws(() => createOutboxStore({id: "memorylru", maxItems: 10}));
+});
+
+test("Entries dropped by the store are logged", async t => {
+    const server = switchableFetch();
+    const warnings = [];
+    const logger = {debug: () => undefined, info: () => undefined, error: () => undefined, warn: (message, fields) => warnings.push({message, fields})};
+    // keeps only the latest entry
+    let latest = undefined;
+    const store = {
+        load: async () => latest ? [latest] : [],
+        save: async entry => latest = entry,
+        delete: async id => latest = latest?.id === id ? undefined : latest
+    };
+    const client = await createFetchClient({outbox: {store: store}, logger: logger, fetch: server.fetch});
+    const first = await t.throwsAsync(() => client.fetch("a", {method: "POST", body: "a"}), {instanceOf: QueuedForReplayError});
+    await t.throwsAsync(() => client.fetch("b", {method: "POST", body: "b"}), {instanceOf: QueuedForReplayError});
+    server.online = true;
+    t.deepEqual(await client.outbox().replay(), {replayed: 1, discarded: 0, remaining: 0});
+    t.deepEqual(warnings, [{message: "Outbox entry dropped by the store", fields: {id: first.entry.id}}]);
+    await client.close();
+});
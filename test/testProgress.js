@@ -0,0 +1,92 @@
+import test from "ava";
+import {createFetchClient} from "../dist/client.js";
+
+const body = "x".repeat(200 * 1024);
+
+/**
+ * Returns a fetch mock that consumes the request body and responds with the status codes provided
+ */
+function uploadFetch(statusCodes) {
+    const received = [];
+    let cnt = 0;
+    const fetch = async (url, init) => {
+        received.push(init?.body ? (await new Response(init.body).text()).length : 0);
+        return new Response("ok", {status: statusCodes?.[cnt++] || 200});
+    };
+    return [fetch, received];
+}
+
+test("Download progress is reported", async t => {
+    const progress = [];
+    const fetch = async () => new Response(body, {headers: {"Content-Length": String(body.length)}});
+    const client = await createFetchClient({fetch: fetch});
+    const response = await client.fetch("test", {onDownloadProgress: p => progress.push(p)});
+    t.is(progress.length, 0);
+    t.is((await response.text()).length, body.length);
+    t.true(progress.length > 0);
+    t.like(progress[progress.length - 1], {loaded: body.length, total: body.length, attempt: 1});
+    t.true(progress.every(p => p.rate >= 0));
+    await client.close();
+});
+
+test("Upload progress is reported", async t => {
+    const progress = [];
+    const [fetch, received] = uploadFetch();
+    const client = await createFetchClient({fetch: fetch});
+    await client.fetch("test", {method: "POST", body: body, onUploadProgress: p => progress.push(p)});
+    t.deepEqual(received, [body.length]);
+    t.true(progress.length > 1);
+    t.like(progress[progress.length - 1], {loaded: body.length, total: body.length, attempt: 1});
+    await client.close();
+});
+
+test("Progress is reset for every attempt", async t => {
+    const progress = [];
+    const [fetch, received] = uploadFetch([503]);
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0}, fetch: fetch});
+    await client.fetch("test", {method: "PUT", body: body, onUploadProgress: p => progress.push(p)});
+    t.deepEqual(received, [body.length, body.length]);
+    const secondAttempt = progress.filter(p => p.attempt === 2);
+    t.true(secondAttempt.length > 0);
+    t.true(secondAttempt[0].loaded < body.length);
+    t.is(secondAttempt[secondAttempt.length - 1].loaded, body.length);
+    await client.close();
+});
+
+test("Uploads that may be resent are buffered", async t => {
+    const progress = [];
+    const bodies = [];
+    const fetch = async (url, init) => {
+        bodies.push(init.body);
+        return new Response("ok");
+    };
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0}, fetch: fetch});
+    await client.fetch("test", {method: "PUT", body: body, onUploadProgress: p => progress.push(p)});
+    t.is(bodies.length, 1);
+    t.false(bodies[0] instanceof ReadableStream);
+    t.deepEqual(progress.map(p => p.loaded), [0, body.length]);
+    t.true(progress.every(p => p.total === body.length));
+    await client.close();
+});
+
+test("Uploads fall back to a buffered body if streaming is rejected", async t => {
+    const progress = [];
+    const bodies = [];
+    // like a browser connected via HTTP/1.1
+    const fetch = async (url, init) => {
+        bodies.push(init.body);
+        if (init.body instanceof ReadableStream)
+            throw new TypeError("Failed to fetch");
+        return new Response("ok");
+    };
+    const client = await createFetchClient({fetch: fetch});
+    await client.fetch("https://http1.example.com/upload", {method: "POST", body: body, onUploadProgress: p => progress.push(p)});
+    t.is(bodies.length, 2);
+    t.false(bodies[1] instanceof ReadableStream);
+    t.deepEqual(progress.map(p => p.loaded), [0, body.length]);
+    // the origin is not tried with a stream again
+    await client.fetch("https://http1.example.com/upload", {method: "POST", body: body, onUploadProgress: () => undefined});
+    t.is(bodies.length, 3);
+    t.false(bodies[2] instanceof ReadableStream);
+    await client.close();
+});
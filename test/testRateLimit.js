@@ -0,0 +1,69 @@
+import test from "ava";
+import {createFetchClient} from "../dist/client.js";
+import {mockFetch} from "./helpers/utils.js";
+
+test("Static rate limit delays requests", async t => {
+    const client = await createFetchClient({rateLimit: {limit: 2, interval: 200}, fetch: mockFetch({})});
+    const limited = [];
+    client.on("rateLimited", evt => limited.push(evt));
+    const start = Date.now();
+    await Promise.all([client.fetch("test"), client.fetch("test"), client.fetch("test")]);
+    t.true(Date.now() - start >= 80);
+    t.is(limited.length, 1);
+    t.like(limited[0], {endpoint: "test", method: "GET", attempt: 1});
+    t.true(limited[0].waited >= 80);
+    await client.close();
+});
+
+test("Queued requests can be aborted", async t => {
+    const client = await createFetchClient({rateLimit: {limit: 1, interval: 10_000}, fetch: mockFetch({})});
+    await client.fetch("test");
+    const ctrl = new AbortController();
+    setTimeout(() => ctrl.abort(new Error("test abort")), 50);
+    const start = Date.now();
+    await t.throwsAsync(() => client.fetch("test", {signal: ctrl.signal}));
+    t.true(Date.now() - start < 1_000);
+    await client.close();
+});
+
+test("Queued requests respect the total timeout", async t => {
+    const client = await createFetchClient({rateLimit: {limit: 1, interval: 10_000}, timeoutTotal: 100, fetch: mockFetch({})});
+    await client.fetch("test");
+    const start = Date.now();
+    await t.throwsAsync(() => client.fetch("test"));
+    t.true(Date.now() - start < 1_000);
+    await client.close();
+});
+
+test("Rate limit adapts to RateLimit headers", async t => {
+    const fetch = mockFetch({headers: [{"RateLimit-Limit": "10", "RateLimit-Remaining": "0", "RateLimit-Reset": "0.3"}]});
+    const client = await createFetchClient({rateLimit: {}, fetch: fetch});
+    await client.fetch("test");
+    const start = Date.now();
+    await client.fetch("test");
+    t.true(Date.now() - start >= 250);
+    await client.close();
+});
+
+test("Rate limits apply per origin", async t => {
+    const client = await createFetchClient({rateLimit: {limit: 1, interval: 10_000}, fetch: mockFetch({})});
+    const start = Date.now();
+    await client.fetch("https://a.example.com/test");
+    await client.fetch("https://b.example.com/test");
+    t.true(Date.now() - start < 1_000);
+    await client.close();
+});
+
+test("Requests waiting for a token do not occupy the bulkhead", async t => {
+    const client = await createFetchClient({rateLimit: {limit: 1, interval: 10_000}, parallelRequests: {maxParallelRequests: 1, maxQueuedRequests: 0}, 
+        fetch: mockFetch({})});
+    await client.fetch("https://a.example.com/test");
+    const ctrl = new AbortController();
+    const limited = client.fetch("https://a.example.com/test", {signal: ctrl.signal});
+    // would be rejected by the bulkhead if the rate limited request held the only slot
+    const resp = await client.fetch("https://b.example.com/test");
+    t.is(resp.status, 200);
+    ctrl.abort(new Error("test abort"));
+    await t.throwsAsync(limited, {message: "test abort"});
+    await client.close();
+});
@@ -0,0 +1,49 @@
+import test from "ava";
+import {createFetchClient, RetryBudgetExhaustedError, HttpError} from "../dist/client.js";
+import {mockFetch, retriedError} from "./helpers/utils.js";
+
+function countingFetch(fetch) {
+    const calls = [];
+    const wrapped = (url, init) => {
+        calls.push(url);
+        return fetch(url, init);
+    };
+    return [wrapped, calls];
+}
+
+test("Retries fail fast once the retry budget is exhausted", async t => {
+    const [fetch, calls] = countingFetch(mockFetch({error: Array.from({length: 6}, () => retriedError())}));
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0}, retryBudget: {ratio: 0, maxTokens: 2}, fetch: fetch});
+    const exhausted = [];
+    client.on("retryBudgetExhausted", evt => exhausted.push(evt));
+    await t.throwsAsync(() => client.fetch("test"), {instanceOf: HttpError});
+    await t.throwsAsync(() => client.fetch("test"), {instanceOf: HttpError});
+    t.is(calls.length, 4);
+    t.is(exhausted.length, 0);
+    const error = await t.throwsAsync(() => client.fetch("test"), {instanceOf: RetryBudgetExhaustedError});
+    t.true(error.cause instanceof HttpError);
+    t.is(calls.length, 5);
+    t.is(exhausted.length, 1);
+    t.like(exhausted[0], {endpoint: "test", method: "GET", attempt: 1});
+    await client.close();
+});
+
+test("Requests replenish the retry budget", async t => {
+    const [fetch, calls] = countingFetch(mockFetch({error: [retriedError(), undefined, undefined, retriedError()]}));
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0}, retryBudget: {ratio: 0.5, maxTokens: 1}, fetch: fetch});
+    await client.fetch("test");  // retried, consumes the only token
+    await client.fetch("test");  // adds half a token
+    await client.fetch("test");  // adds another half token, which is then consumed by the retry
+    t.is(calls.length, 5);
+    await client.close();
+});
+
+test("Retry budgets can be scoped per origin", async t => {
+    const [fetch, calls] = countingFetch(mockFetch({error: Array.from({length: 6}, () => retriedError())}));
+    const client = await createFetchClient({retries: {maxRetries: 1, initialDelay: 0}, retryBudget: {ratio: 0, maxTokens: 1, scope: "origin"}, fetch: fetch});
+    await t.throwsAsync(() => client.fetch("https://a.example.com/test"), {instanceOf: HttpError});
+    await t.throwsAsync(() => client.fetch("https://a.example.com/test"), {instanceOf: RetryBudgetExhaustedError});
+    await t.throwsAsync(() => client.fetch("https://b.example.com/test"), {instanceOf: HttpError});
+    t.is(calls.length, 5);
+    await client.close();
+});
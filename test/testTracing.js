@@ -0,0 +1,104 @@
+import test from "ava";
+import {createFetchClient} from "../dist/client.js";
+import {createInMemoryTracer} from "../dist/tracing.js";
+import {mockFetch} from "./helpers/utils.js";
+
+/**
+ * Records the trace headers sent
+ */
+function headerFetch(fetch) {
+    const headers = [];
+    const wrapped = (url, init) => {
+        const h = new Headers(init?.headers);
+        headers.push({traceparent: h.get("traceparent"), tracestate: h.get("tracestate")});
+        return fetch(url, init);
+    };
+    return [wrapped, headers];
+}
+
+test("Requests and attempts are traced", async t => {
+    const tracer = createInMemoryTracer();
+    const [fetch, headers] = headerFetch(mockFetch({status: [503, 200]}));
+    const client = await createFetchClient({baseUrl: "https://example.com:8443/api", retries: {maxRetries: 1, initialDelay: 0}, 
+        tracing: {tracer: tracer}, fetch: fetch});
+    await client.fetch("users/1");
+    const spans = tracer.finishedSpans();
+    t.is(spans.length, 3);
+    const [first, second, request] = spans;
+    t.is(request.kind, "internal");
+    t.is(request.parentSpanId, undefined);
+    t.is(request.attributes["http.response.status_code"], 200);
+    for (const attempt of [first, second]) {
+        t.is(attempt.kind, "client");
+        t.is(attempt.name, "GET");
+        t.is(attempt.traceId, request.traceId);
+        t.is(attempt.parentSpanId, request.spanId);
+        t.is(attempt.attributes["http.request.method"], "GET");
+        t.is(attempt.attributes["url.full"], "https://example.com:8443/api/users/1");
+        t.is(attempt.attributes["server.address"], "example.com");
+        t.is(attempt.attributes["server.port"], 8443);
+    }
+    t.is(first.attributes["http.response.status_code"], 503);
+    t.is(first.attributes["error.type"], "503");
+    t.is(first.status.code, "error");
+    t.is(first.attributes["http.request.resend_count"], undefined);
+    t.is(second.attributes["http.request.resend_count"], 1);
+    t.deepEqual(headers.map(h => h.traceparent), [first, second].map(s => "00-" + s.traceId + "-" + s.spanId + "-01"));
+    await client.close();
+});
+
+test("Incoming trace context is propagated", async t => {
+    const tracer = createInMemoryTracer();
+    const [fetch, headers] = headerFetch(mockFetch());
+    const client = await createFetchClient({tracing: {tracer: tracer}, fetch: fetch});
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    await client.fetch("https://example.com/test", {headers: {traceparent: "00-" + traceId + "-00f067aa0ba902b7-01", tracestate: "vendor=value"}});
+    const [attempt, request] = tracer.finishedSpans();
+    t.is(request.traceId, traceId);
+    t.is(request.parentSpanId, "00f067aa0ba902b7");
+    t.is(attempt.traceId, traceId);
+    t.is(headers[0].traceparent, "00-" + traceId + "-" + attempt.spanId + "-01");
+    t.is(headers[0].tracestate, "vendor=value");
+    await client.close();
+});
+
+test("Parent context can be provided and propagation disabled", async t => {
+    const tracer = createInMemoryTracer();
+    const [fetch, headers] = headerFetch(mockFetch({error: new TypeError("Failed to fetch")}));
+    const parent = {traceId: "0af7651916cd43dd8448eb211c80319c", spanId: "b7ad6b7169203331", traceFlags: 0};
+    const client = await createFetchClient({tracing: {tracer: tracer, propagate: false, parent: () => parent}, fetch: fetch});
+    await t.throwsAsync(() => client.fetch("https://example.com/test"));
+    const [attempt, request] = tracer.finishedSpans();
+    t.is(request.traceId, parent.traceId);
+    t.is(request.parentSpanId, parent.spanId);
+    t.is(request.traceFlags, 0);
+    t.is(request.status.code, "error");
+    t.is(request.attributes["error.type"], "network");
+    t.is(attempt.exceptions.length, 1);
+    t.is(headers[0].traceparent, null);
+    await client.close();
+});
+
+test("Cache lookups are traced", async t => {
+    const tracer = createInMemoryTracer();
+    const client = await createFetchClient({cache: {id: "memory"}, tracing: {tracer: tracer}, 
+        fetch: mockFetch({result: JSON.stringify({a: 1}), headers: {"Content-Type": "application/json"}})});
+    const useCache = {useCache: {key: "a1", defaultCacheControl: {maxAge: true}}};
+    await client.fetchJson("https://example.com/test", useCache);
+    await new Promise(resolve => setTimeout(resolve, 50));  // cache write
+    const missSpans = tracer.finishedSpans();
+    t.deepEqual(missSpans.map(s => s.name), ["cache lookup", "GET", "GET"]);
+    t.is(missSpans[0].attributes["fetch_client.cache.found"], false);
+    t.is(missSpans[0].parentSpanId, missSpans[2].spanId);
+    t.is(missSpans[1].parentSpanId, missSpans[2].spanId);
+    t.is(missSpans[2].attributes["fetch_client.cache.result"], "miss");
+    tracer.reset();
+    await client.fetchJson("https://example.com/test", useCache);
+    const [lookup, request] = tracer.finishedSpans();
+    t.is(tracer.finishedSpans().length, 2);
+    t.is(lookup.attributes["fetch_client.cache.key"], "a1");
+    t.is(lookup.attributes["fetch_client.cache.found"], true);
+    t.is(lookup.parentSpanId, request.spanId);
+    t.is(request.attributes["fetch_client.cache.result"], "hit");
+    await client.close();
+});